@@ -121,6 +121,32 @@ export class AudioEngine {
 		}
 	}
 
+	/**
+	 * Swap in new audio for the current session after its stems changed.
+	 * Playback position, loop and rate are kept, and playback resumes if it was running.
+	 * BPM and beat offset live in the session, so they are untouched.
+	 * @param stemEnabled - Enabled state per stem (stem mode only)
+	 */
+	async reloadAudio(mode: 'single' | 'stem', buffers: ArrayBuffer[], stemEnabled: boolean[] = []): Promise<void> {
+		const wasPlaying = this.isPlaying;
+		const position = this.getCurrentTime();
+		if (wasPlaying) {
+			this.pause();
+		}
+
+		if (mode === 'stem') {
+			await this.loadStems(buffers);
+			this.stemEnabledStates = this.stemBuffers.map((_, index) => stemEnabled[index] ?? true);
+		} else {
+			await this.loadTrack(buffers[0]);
+		}
+
+		this.pauseTime = Math.min(position, this.getDuration());
+		if (wasPlaying) {
+			await this.play();
+		}
+	}
+
 	/**
 	 * Start or resume playback
 	 */
@@ -0,0 +1,130 @@
+/**
+ * Content-addressed audio storage
+ * Audio payloads (and cover images) live in their own IndexedDB database keyed by the
+ * SHA-256 of their bytes. Sessions only keep the hash, so metadata edits never rewrite
+ * audio and identical files imported twice are stored once.
+ */
+
+import {
+	createStore,
+	get,
+	set,
+	delMany,
+	keys,
+	clear,
+	promisifyRequest,
+	type UseStore
+} from 'idb-keyval';
+
+const AUDIO_DB_NAME = 'music-nerd-audio';
+const AUDIO_STORE_NAME = 'blobs';
+
+export type AudioPayload = ArrayBuffer | Blob;
+
+/**
+ * SHA-256 of an audio payload as a lowercase hex string
+ */
+export async function hashAudio(data: AudioPayload): Promise<string> {
+	const bytes = data instanceof Blob ? await data.arrayBuffer() : data;
+	const digest = await crypto.subtle.digest('SHA-256', bytes);
+	return Array.from(new Uint8Array(digest))
+		.map((byte) => byte.toString(16).padStart(2, '0'))
+		.join('');
+}
+
+export class AudioBlobStore {
+	private store: UseStore | null = null;
+
+	// Hashes of payloads this store has read or written, so saving a session
+	// again does not re-hash its audio. A payload's hash never changes, but the
+	// blob may have been deleted since, so put still checks that it is stored.
+	private knownHashes = new WeakMap<AudioPayload, string>();
+
+	// Byte sizes by hash; content-addressed payloads never change size
+	private sizes = new Map<string, number>();
+
+	private getStore(): UseStore {
+		if (!this.store) {
+			this.store = createStore(AUDIO_DB_NAME, AUDIO_STORE_NAME);
+		}
+		return this.store;
+	}
+
+	/**
+	 * Store a payload (if not already present) and return its hash
+	 */
+	async put(data: AudioPayload): Promise<string> {
+		const hash = this.knownHashes.get(data) ?? (await hashAudio(data));
+		if (!(await this.has(hash))) {
+			await set(hash, data, this.getStore());
+		}
+
+		this.knownHashes.set(data, hash);
+		return hash;
+	}
+
+	/**
+	 * Whether a payload is stored, without reading it
+	 */
+	async has(hash: string): Promise<boolean> {
+		const key = await this.getStore()('readonly', (store) => promisifyRequest(store.getKey(hash)));
+		return key !== undefined;
+	}
+
+	/**
+	 * Read a payload by hash
+	 */
+	async get<T extends AudioPayload = ArrayBuffer>(hash: string): Promise<T | undefined> {
+		const data = await get<T>(hash, this.getStore());
+		if (data) {
+			this.knownHashes.set(data, hash);
+		}
+		return data;
+	}
+
+	/**
+	 * Byte size of a stored payload (0 if it is missing)
+	 */
+	async getSize(hash: string): Promise<number> {
+		const cached = this.sizes.get(hash);
+		if (cached !== undefined) {
+			return cached;
+		}
+
+		const data = await get<AudioPayload>(hash, this.getStore());
+		if (!data) {
+			return 0;
+		}
+
+		const size = data instanceof Blob ? data.size : data.byteLength;
+		this.sizes.set(hash, size);
+		return size;
+	}
+
+	/**
+	 * List every stored hash
+	 */
+	async listHashes(): Promise<string[]> {
+		return await keys<string>(this.getStore());
+	}
+
+	/**
+	 * Remove payloads by hash
+	 */
+	async delete(hashes: string[]): Promise<void> {
+		if (hashes.length > 0) {
+			await delMany(hashes, this.getStore());
+			hashes.forEach((hash) => this.sizes.delete(hash));
+		}
+	}
+
+	/**
+	 * Remove every stored payload
+	 */
+	async clear(): Promise<void> {
+		await clear(this.getStore());
+		this.sizes.clear();
+	}
+}
+
+export const audioBlobStore = new AudioBlobStore();
@@ -0,0 +1,304 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { get, set } from 'idb-keyval';
+import { PersistenceService } from './PersistenceService';
+import { audioBlobStore } from './AudioBlobStore';
+import { sessionSync } from './sessionSync';
+import { CURRENT_SCHEMA_VERSION } from './migrations';
+import type { TrackSession } from '../types';
+
+// In-memory stand-in for IndexedDB. Writes yield to the event loop first, like real
+// transactions, so operations started together interleave.
+vi.mock('idb-keyval', () => {
+	const defaultStore = new Map<IDBValidKey, unknown>();
+	const customStores = new WeakMap<object, Map<IDBValidKey, unknown>>();
+	const resolve = (customStore?: object) =>
+		(customStore && customStores.get(customStore)) ?? defaultStore;
+	const tick = () => new Promise((done) => setTimeout(done, 0));
+
+	return {
+		createStore: () => {
+			const data = new Map<IDBValidKey, unknown>();
+			const useStore = (_mode: string, callback: (store: object) => unknown) =>
+				Promise.resolve(
+					callback({ getKey: (key: IDBValidKey) => ({ result: data.has(key) ? key : undefined }) })
+				);
+			customStores.set(useStore, data);
+			return useStore;
+		},
+		promisifyRequest: (request: { result: unknown }) => Promise.resolve(request.result),
+		get: async (key: IDBValidKey, customStore?: object) => resolve(customStore).get(key),
+		set: async (key: IDBValidKey, value: unknown, customStore?: object) => {
+			await tick();
+			resolve(customStore).set(key, structuredClone(value));
+		},
+		del: async (key: IDBValidKey, customStore?: object) => {
+			await tick();
+			resolve(customStore).delete(key);
+		},
+		delMany: async (keys: IDBValidKey[], customStore?: object) => {
+			await tick();
+			keys.forEach((key) => resolve(customStore).delete(key));
+		},
+		keys: async (customStore?: object) => [...resolve(customStore).keys()],
+		clear: async (customStore?: object) => resolve(customStore).clear()
+	};
+});
+
+vi.mock('./sessionSync', () => ({
+	sessionSync: { notifySaved: vi.fn(), notifyDeleted: vi.fn() }
+}));
+
+function makeSession(id: string, audio: number[]): TrackSession {
+	return {
+		id,
+		schemaVersion: CURRENT_SCHEMA_VERSION,
+		mp3Blob: new Uint8Array(audio).buffer,
+		filename: `${id}.mp3`,
+		created: '2026-01-01T00:00:00.000Z',
+		bpm: 120,
+		beatOffset: 0,
+		manualBpm: false,
+		beatsPerLine: 4,
+		beats: [],
+		annotations: [],
+		targetBPM: 0,
+		mode: 'single',
+		tags: []
+	};
+}
+
+describe('PersistenceService audio storage', () => {
+	let service: PersistenceService;
+
+	beforeEach(async () => {
+		service = new PersistenceService();
+		await service.clearAll();
+	});
+
+	it('keeps audio stored by a save that overlaps garbage collection', async () => {
+		await service.saveSession(makeSession('old', [1, 2, 3]));
+
+		await Promise.all([
+			service.saveSession(makeSession('new', [4, 5, 6])),
+			service.deleteSession('old')
+		]);
+
+		const loaded = await service.loadSession('new');
+		expect(Array.from(new Uint8Array(loaded!.mp3Blob!))).toEqual([4, 5, 6]);
+		expect(await audioBlobStore.listHashes()).toHaveLength(1);
+	});
+
+	it('stores audio again after it was collected', async () => {
+		const session = makeSession('first', [7, 8, 9]);
+		await service.saveSession(session);
+		await service.deleteSession('first');
+		expect(await audioBlobStore.listHashes()).toHaveLength(0);
+
+		// Same payload object: its hash is remembered, but the blob is gone
+		await service.saveSession({ ...session, id: 'second' });
+
+		const loaded = await service.loadSession('second');
+		expect(Array.from(new Uint8Array(loaded!.mp3Blob!))).toEqual([7, 8, 9]);
+	});
+
+	it('keeps cover art in the blob store, also after the audio is archived', async () => {
+		const session = makeSession('song', [1, 2, 3]);
+		session.metadata = {
+			title: 'Song',
+			coverArt: new Blob([new Uint8Array([9])], { type: 'image/png' })
+		};
+		await service.saveSession(session);
+		await service.archiveSessionAudio('song');
+
+		const [summary] = await service.listSessions();
+		expect(summary.metadata?.coverArt).toBeUndefined();
+		const cover = await service.loadCoverArt(summary.metadata!.coverArtHash!);
+		expect(cover?.type).toBe('image/png');
+		expect(await audioBlobStore.listHashes()).toEqual([summary.metadata!.coverArtHash]);
+	});
+
+	it('patches session records without reading their audio', async () => {
+		await service.saveSession(makeSession('song', [1, 2, 3]));
+		const readAudio = vi.spyOn(audioBlobStore, 'get');
+
+		const patched = await service.updateSessionTags('song', ['Practice']);
+
+		expect(readAudio).not.toHaveBeenCalled();
+		expect(patched.tags).toEqual(['practice']);
+		expect(patched.mp3Blob).toBeUndefined();
+		readAudio.mockRestore();
+	});
+});
+
+describe('PersistenceService.patchSession', () => {
+	let service: PersistenceService;
+
+	beforeEach(async () => {
+		service = new PersistenceService();
+		await service.clearAll();
+		await service.saveSession(makeSession('song', [1, 2, 3]));
+	});
+
+	it('keeps both changes when two patches run at once', async () => {
+		await Promise.all([
+			service.patchSession('song', (session) => {
+				session.tags = [...(session.tags ?? []), 'rock'];
+			}),
+			service.patchSession('song', (session) => {
+				session.folder = 'Setlist';
+			})
+		]);
+
+		const loaded = await service.loadSession('song');
+		expect(loaded?.tags).toEqual(['rock']);
+		expect(loaded?.folder).toBe('Setlist');
+	});
+
+	it('keeps a patch saved while an older record is upgraded on read', async () => {
+		// Saved before audio moved to the blob store: the record holds its audio inline
+		await set('session-legacy', makeSession('legacy', [4, 5, 6]));
+
+		// Hold the read while it stores the audio, and save a patch in the meantime
+		let release!: () => void;
+		const held = new Promise<void>((done) => (release = done));
+		const put = audioBlobStore.put.bind(audioBlobStore);
+		const storeAudio = vi.spyOn(audioBlobStore, 'put').mockImplementationOnce(async (data) => {
+			await held;
+			return put(data);
+		});
+
+		const loading = service.loadSession('legacy');
+		await service.updateSessionTags('legacy', ['rock']);
+		release();
+		await loading;
+		storeAudio.mockRestore();
+
+		const loaded = await service.loadSession('legacy');
+		expect(loaded?.tags).toEqual(['rock']);
+		expect(Array.from(new Uint8Array(loaded!.mp3Blob!))).toEqual([4, 5, 6]);
+		expect(await get('session-legacy')).not.toHaveProperty('mp3Blob');
+	});
+
+	it('merges session updates without storing their audio again', async () => {
+		const session = (await service.loadSession('song'))!;
+		const storeAudio = vi.spyOn(audioBlobStore, 'put');
+
+		const updated = await service.updateSession({
+			...session,
+			folder: 'Setlist',
+			mp3Blob: new Uint8Array([7, 7]).buffer
+		});
+
+		expect(storeAudio).not.toHaveBeenCalled();
+		expect(updated.folder).toBe('Setlist');
+		const loaded = await service.loadSession('song');
+		expect(Array.from(new Uint8Array(loaded!.mp3Blob!))).toEqual([1, 2, 3]);
+		storeAudio.mockRestore();
+	});
+
+	it('adds imported annotations to their own layer, else to the target layer', async () => {
+		await service.patchSession('song', (session) => {
+			session.layers = [
+				{ id: 'inst', name: 'Instruments', visible: true, locked: false },
+				{ id: 'moves', name: 'Moves', visible: true, locked: false }
+			];
+		});
+		const imported = { endTimeMs: 100, label: 'x', color: '#fff' };
+
+		const session = await service.addAnnotations(
+			'song',
+			[
+				{ ...imported, startTimeMs: 0, layerId: 'moves' },
+				{ ...imported, startTimeMs: 50 }
+			],
+			'inst'
+		);
+
+		expect(session.annotations.map((annotation) => annotation.layerId)).toEqual(['moves', 'inst']);
+	});
+
+	it('regenerates beats when the duration changes', async () => {
+		const session = await service.updateSessionDuration('song', 4);
+
+		expect(session.duration).toBe(4);
+		expect(session.beats.at(-1)?.time).toBeLessThanOrEqual(4);
+		expect(session.beats).toHaveLength(8);
+	});
+
+	it('runs later writes after a mutator throws', async () => {
+		const failing = service.patchSession('song', () => {
+			throw new Error('Layer is locked');
+		});
+		const following = service.updateSessionFilename('song', 'renamed.mp3');
+
+		await expect(failing).rejects.toThrow('Layer is locked');
+		await following;
+		expect((await service.loadSession('song'))?.filename).toBe('renamed.mp3');
+	});
+});
+
+describe('PersistenceService storage management', () => {
+	let service: PersistenceService;
+
+	beforeEach(async () => {
+		service = new PersistenceService();
+		await service.clearAll();
+	});
+
+	it('counts audio used by several sessions once, as shared', async () => {
+		await service.saveSession(makeSession('song', [1, 2, 3, 4]));
+		await service.duplicateSession('song');
+		await service.saveSession(makeSession('other', [5, 6]));
+
+		const usages = await service.getStorageBreakdown();
+		const song = usages.find((usage) => usage.sessionId === 'song')!;
+		const other = usages.find((usage) => usage.sessionId === 'other')!;
+
+		expect(song.audioBytes).toBe(0);
+		expect(song.sharedBytes).toBe(4);
+		expect(song.totalBytes).toBe(song.metadataBytes);
+		expect(other.audioBytes).toBe(2);
+		expect(other.sharedBytes).toBe(0);
+	});
+
+	it('restores both the track and the stems of a session with attached stems', async () => {
+		await service.saveSession(makeSession('song', [1, 2, 3]));
+		await service.attachStems('song', [new File([new Uint8Array([4, 5])], 'Vocals.mp3')]);
+		await service.archiveSessionAudio('song');
+		expect(await audioBlobStore.listHashes()).toHaveLength(0);
+
+		await expect(
+			service.restoreSessionAudio('song', [new File([new Uint8Array([4, 5])], 'vocals.mp3')])
+		).rejects.toThrow('Missing audio for: song.mp3');
+
+		await service.restoreSessionAudio('song', [
+			new File([new Uint8Array([1, 2, 3])], 'song.mp3'),
+			new File([new Uint8Array([4, 5])], 'vocals.mp3')
+		]);
+
+		const restored = await service.loadSession('song');
+		expect(restored?.archivedAt).toBeUndefined();
+		expect(Array.from(new Uint8Array(restored!.mp3Blob!))).toEqual([1, 2, 3]);
+		expect(restored?.stems?.map((stem) => Array.from(new Uint8Array(stem.mp3Blob!)))).toEqual([
+			[1, 2, 3],
+			[4, 5]
+		]);
+	});
+});
+
+describe('PersistenceService.duplicateSession', () => {
+	let service: PersistenceService;
+
+	beforeEach(async () => {
+		service = new PersistenceService();
+		await service.clearAll();
+		await service.saveSession(makeSession('song', [1, 2, 3]));
+		vi.mocked(sessionSync.notifySaved).mockClear();
+	});
+
+	it('tells other tabs about the copy', async () => {
+		const copy = await service.duplicateSession('song');
+
+		expect(sessionSync.notifySaved).toHaveBeenCalledWith(copy.id);
+	});
+});
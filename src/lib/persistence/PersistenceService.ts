@@ -1,38 +1,304 @@
 import { get, set, del, keys, clear } from 'idb-keyval';
 import { v4 as uuidv4 } from 'uuid';
-import type { TrackSession, Annotation, Stem } from '../types';
+import type { TrackSession, Annotation, AnnotationLayer, Stem, SessionSummary, SessionStorageUsage, WorkingState, SavedLoop, TempoSection, BeatAnchor } from '../types';
+import { createSessionBundle, parseSessionBundle } from './sessionBundle';
+import { createReaperExport } from '../utils/reaperProject';
+import { buildChapterTag, getChapters, isMp3Data, readId3Frames, replaceId3Tag } from '../utils/chapters';
+import { stripExtension } from '../utils/download';
+import { migrateSession, CURRENT_SCHEMA_VERSION } from './migrations';
+import { audioBlobStore } from './AudioBlobStore';
+import { sessionSync } from './sessionSync';
+import { prepareAudioForStorage, transcodeToMp3, DEFAULT_IMPORT_SETTINGS, type ImportSettings } from '../utils/audioTranscoder';
+import { querySessions, normalizeTag, type SessionQuery } from '../utils/sessionQuery';
+import { generateBeats, normalizeBeatAnchors } from '../utils/beatGrid';
+import { normalizeTempoMap } from '../utils/tempoMap';
+import { countBlobReferences, getBlobReferences, isNearQuota, matchStemFiles } from '../utils/storageUsage';
+import { readTrackMetadata } from '../utils/trackMetadata';
+import { orderById } from '../utils/ordering';
+import { createDefaultLayer, getLayers, isAnnotationLocked, resolveLayerId } from '../utils/annotationLayers';
 
 const CURRENT_SESSION_KEY = 'current-session';
 const SESSION_PREFIX = 'session-';
+// Default colors for stems (can be customized later)
+const STEM_COLORS = ['#3b82f6', '#ef4444', '#10b981', '#f59e0b', '#8b5cf6', '#ec4899', '#06b6d4', '#84cc16'];
+
+// Shape of a session record in IndexedDB: audio and cover art are referenced by hash, never stored inline
+type StoredStem = Omit<Stem, 'mp3Blob' | 'downloadBlob'>;
+type StoredSession = Omit<TrackSession, 'mp3Blob' | 'stems'> & { stems?: StoredStem[] };
+
+// Tail of the pending write chain, shared by every PersistenceService instance.
+// Writes and audio garbage collection run one at a time, so audio is never swept
+// between being stored and being referenced by the session that stored it.
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+// Web Lock held by each write, extending the same guarantee across tabs
+const STORAGE_LOCK_NAME = 'music-nerd-storage';
+
+/**
+ * Run a storage task holding the cross-tab storage lock (where the browser has Web Locks)
+ */
+function withStorageLock<T>(task: () => Promise<T>): Promise<T> {
+	if (typeof navigator !== 'undefined' && navigator.locks) {
+		return navigator.locks.request(STORAGE_LOCK_NAME, () => task());
+	}
+	return task();
+}
+
+/**
+ * Whether a record still holds audio or cover art that belongs in the blob store
+ */
+function hasInlineData(session: TrackSession): boolean {
+	return !!session.mp3Blob || !!session.metadata?.coverArt || !!session.stems?.some((stem) => stem.mp3Blob || stem.downloadBlob);
+}
+
+/**
+ * Snap annotation times to 25ms increments
+ */
+function snapTime(timeMs: number): number {
+	return Math.round(timeMs / 25) * 25;
+}
+
+/**
+ * Reject edits to an annotation on a locked layer
+ */
+function assertAnnotationUnlocked(session: TrackSession, annotation: Annotation): void {
+	if (isAnnotationLocked(annotation, getLayers(session))) {
+		throw new Error('Layer is locked');
+	}
+}
+
+/**
+ * Apply editable annotation fields, snapping time values
+ */
+function applyAnnotationUpdates(annotation: Annotation, updates: Partial<Omit<Annotation, 'id'>>): void {
+	if (updates.startTimeMs !== undefined) {
+		annotation.startTimeMs = snapTime(updates.startTimeMs);
+	}
+	if (updates.endTimeMs !== undefined) {
+		annotation.endTimeMs = snapTime(updates.endTimeMs);
+	}
+	if (updates.label !== undefined) {
+		annotation.label = updates.label;
+	}
+	if (updates.color !== undefined) {
+		annotation.color = updates.color;
+	}
+	if (updates.rowIndex !== undefined) {
+		annotation.rowIndex = updates.rowIndex;
+	}
+}
+
+/**
+ * Playback audio of a session's stems, in stem order. The session must have been
+ * loaded with its audio (loadSession, or an operation that returns audio).
+ */
+export function getStemAudio(stems: Stem[]): ArrayBuffer[] {
+	return stems.map((stem) => {
+		if (!stem.mp3Blob) {
+			throw new Error(`Stem "${stem.filename}" was loaded without its audio`);
+		}
+		return stem.mp3Blob;
+	});
+}
+
+/**
+ * Whether two copies of a session play the same audio, e.g. to tell whether
+ * another tab attached, replaced or removed stems
+ */
+export function hasSameAudio(a: TrackSession, b: TrackSession): boolean {
+	const audioKey = (session: TrackSession) =>
+		[session.audioHash, ...(session.stems ?? []).map((stem) => stem.audioHash)].join('|');
+	return audioKey(a) === audioKey(b);
+}
 
 export class PersistenceService {
 	/**
 	 * Save a track session to IndexedDB
+	 * Audio goes to the blob store; the session record only keeps its hashes
 	 */
 	async saveSession(session: TrackSession): Promise<void> {
 		try {
-			const sessionKey = `${SESSION_PREFIX}${session.id}`;
-			await set(sessionKey, session);
-			await set(CURRENT_SESSION_KEY, session.id);
+			await this.enqueueWrite(async () => {
+				await this.writeSessionRecord(session);
+				await set(CURRENT_SESSION_KEY, session.id);
+			});
 		} catch (error) {
 			throw new Error(`Failed to save session: ${error}`);
 		}
 	}
 
 	/**
-	 * Load a specific track session by ID
+	 * Write a session record, storing any audio attached to it first, and tell other tabs.
+	 * Only call from inside a queued write.
+	 */
+	private async writeSessionRecord(session: TrackSession): Promise<StoredSession> {
+		const stored = await this.externalizeAudio(session);
+		await set(`${SESSION_PREFIX}${session.id}`, stored);
+		sessionSync.notifySaved(session.id);
+		return stored;
+	}
+
+	/**
+	 * Load a specific track session by ID, upgrading it to the current schema if needed
 	 */
 	async loadSession(sessionId: string): Promise<TrackSession | null> {
 		try {
 			const sessionKey = `${SESSION_PREFIX}${sessionId}`;
-			const session = await get(sessionKey);
-			return session || null;
+			const stored = await this.readSessionRecord(sessionKey);
+			if (!stored) return null;
+
+			return await this.hydrateAudio(stored);
 		} catch (error) {
 			console.error('Failed to load session:', error);
 			return null;
 		}
 	}
 
+	/**
+	 * Load a session without its audio, e.g. to pick up changes saved by another tab
+	 */
+	async loadSessionRecord(sessionId: string): Promise<TrackSession | null> {
+		return await this.readSessionRecord(`${SESSION_PREFIX}${sessionId}`);
+	}
+
+	/**
+	 * Read a session record without its audio, upgrading it to the current schema.
+	 * Upgraded records (and older records still holding inline audio) are stored back
+	 * by a queued write, so the work only happens the first time they are read.
+	 */
+	private async readSessionRecord(sessionKey: string): Promise<StoredSession | null> {
+		const raw = await get(sessionKey);
+		if (!raw) return null;
+
+		const { session, migrated } = migrateSession(raw);
+		if (!migrated && !hasInlineData(session)) {
+			return session as StoredSession;
+		}
+
+		// Not awaited: reads also run inside queued writes, which this write waits for
+		this.enqueueWrite(() => this.storeUpgradedRecord(sessionKey)).catch((error) =>
+			console.warn('Failed to store upgraded session:', error)
+		);
+		return await this.externalizeAudio(session);
+	}
+
+	/**
+	 * Store the upgraded form of a record, read again inside the queued write so a save
+	 * that landed after it was first read is not overwritten
+	 */
+	private async storeUpgradedRecord(sessionKey: string): Promise<void> {
+		const raw = await get(sessionKey);
+		if (!raw) return;
+
+		const { session, migrated } = migrateSession(raw);
+		if (!migrated && !hasInlineData(session)) return;
+
+		await set(sessionKey, await this.externalizeAudio(session));
+	}
+
+	/**
+	 * Move audio payloads and cover art into the blob store, leaving only their hashes on the record
+	 */
+	private async externalizeAudio(session: TrackSession): Promise<StoredSession> {
+		const { mp3Blob, stems, ...metadata } = session;
+		const stored: StoredSession = { ...metadata };
+
+		if (mp3Blob) {
+			stored.audioHash = await audioBlobStore.put(mp3Blob);
+		}
+
+		if (metadata.metadata?.coverArt) {
+			const { coverArt, ...trackMetadata } = metadata.metadata;
+			stored.metadata = { ...trackMetadata, coverArtHash: await audioBlobStore.put(coverArt) };
+		}
+
+		if (stems) {
+			stored.stems = await Promise.all(
+				stems.map(async ({ mp3Blob: stemAudio, downloadBlob, ...stem }) => ({
+					...stem,
+					audioHash: stemAudio ? await audioBlobStore.put(stemAudio) : stem.audioHash,
+					downloadHash: downloadBlob ? await audioBlobStore.put(downloadBlob) : stem.downloadHash
+				}))
+			);
+		}
+
+		return stored;
+	}
+
+	/**
+	 * Read a session's cover image, which is kept out of the record and loaded only for display
+	 */
+	async loadCoverArt(coverArtHash: string): Promise<Blob | undefined> {
+		return await audioBlobStore.get<Blob>(coverArtHash);
+	}
+
+	/**
+	 * Attach audio payloads from the blob store to a session record
+	 */
+	private async hydrateAudio(stored: StoredSession): Promise<TrackSession> {
+		const session = { ...stored } as TrackSession;
+		// Archived sessions keep their stems' metadata but have no audio to attach
+		if (stored.archivedAt) {
+			return session;
+		}
+
+		if (stored.audioHash) {
+			session.mp3Blob = await this.readAudio(stored.audioHash);
+		}
+
+		if (stored.stems) {
+			session.stems = await Promise.all(
+				stored.stems.map(async (stem) => {
+					const hydrated: Stem = { ...stem, mp3Blob: await this.readAudio(stem.audioHash) };
+					if (stem.downloadHash) {
+						hydrated.downloadBlob = await audioBlobStore.get<Blob>(stem.downloadHash);
+					}
+					return hydrated;
+				})
+			);
+		}
+
+		return session;
+	}
+
+	private async readAudio(hash: string | undefined): Promise<ArrayBuffer> {
+		const audio = hash ? await audioBlobStore.get(hash) : undefined;
+		if (!audio) {
+			throw new Error(`Audio data missing from storage (${hash})`);
+		}
+		return audio;
+	}
+
+	/**
+	 * Delete stored audio that no session references any more.
+	 * Runs in the write queue, so audio stored by a write still in progress is kept.
+	 */
+	private async collectUnreferencedAudio(): Promise<void> {
+		await this.enqueueWrite(() => this.sweepUnreferencedAudio());
+	}
+
+	private async sweepUnreferencedAudio(): Promise<void> {
+		const referenced = countBlobReferences(await this.readSessionRecords());
+		const hashes = await audioBlobStore.listHashes();
+		await audioBlobStore.delete(hashes.filter((hash) => !referenced.has(hash)));
+	}
+
+	private async readSessionRecords(): Promise<StoredSession[]> {
+		const records: StoredSession[] = [];
+		for (const key of await this.getSessionKeys()) {
+			const stored = await this.readSessionRecord(key);
+			if (stored) records.push(stored);
+		}
+		return records;
+	}
+
+	private async getSessionKeys(): Promise<string[]> {
+		const allKeys = await keys();
+		return allKeys.filter((key): key is string =>
+			typeof key === 'string' && key.startsWith(SESSION_PREFIX)
+		);
+	}
+
 	/**
 	 * Load the most recently used session
 	 */
@@ -54,7 +320,7 @@ export class PersistenceService {
 	async setCurrentSession(sessionId: string): Promise<void> {
 		try {
 			// Verify the session exists
-			const session = await this.loadSession(sessionId);
+			const session = await this.readSessionRecord(`${SESSION_PREFIX}${sessionId}`);
 			if (!session) {
 				throw new Error('Session not found');
 			}
@@ -66,15 +332,20 @@ export class PersistenceService {
 	}
 
 	/**
-	 * Create a new track session from MP3 file
+	 * Create a new track session from an audio file
+	 * Lossless or large files are compressed to MP3 unless importSettings.keepOriginal is set
 	 */
-	async createSession(file: File): Promise<TrackSession> {
-		const arrayBuffer = await file.arrayBuffer();
+	async createSession(file: File, importSettings: ImportSettings = DEFAULT_IMPORT_SETTINGS): Promise<TrackSession> {
+		// Tags are read from the original file; re-encoding to MP3 does not carry them over
+		const metadata = await readTrackMetadata(file);
+		const arrayBuffer = await prepareAudioForStorage(file, importSettings);
 		
 		const session: TrackSession = {
 			id: uuidv4(),
+			schemaVersion: CURRENT_SCHEMA_VERSION,
 			mp3Blob: arrayBuffer,
 			filename: file.name,
+			metadata,
 			created: new Date().toISOString(),
 			bpm: 0, // Default BPM
 			beatOffset: 0, // Default offset in milliseconds
@@ -85,7 +356,11 @@ export class PersistenceService {
 			targetBPM: 0, // Default target BPM (same as default BPM)
 			rectsPerBeatMode: 'auto', // Default to auto mode
 			mode: 'single', // Explicitly set single mode
-			rowHeight: 96 // Default row height in pixels
+			rowHeight: 96, // Default row height in pixels
+			tags: [],
+			savedLoops: [],
+			layers: [createDefaultLayer()],
+			lastOpened: new Date().toISOString()
 		};
 
 		await this.saveSession(session);
@@ -93,28 +368,25 @@ export class PersistenceService {
 	}
 
 	/**
-	 * Create a new stem session from multiple MP3 files
+	 * Create a new stem session from multiple audio files
+	 * Lossless or large files are compressed to MP3 unless importSettings.keepOriginal is set
 	 */
-	async createStemSession(files: FileList): Promise<TrackSession> {
+	async createStemSession(files: FileList, importSettings: ImportSettings = DEFAULT_IMPORT_SETTINGS): Promise<TrackSession> {
 		if (files.length < 2) {
 			throw new Error('Stem sessions require at least 2 audio files');
 		}
 
-		// Default colors for stems (can be customized later)
-		const defaultColors = ['#3b82f6', '#ef4444', '#10b981', '#f59e0b', '#8b5cf6', '#ec4899', '#06b6d4', '#84cc16'];
-		
-		const stems: Stem[] = await Promise.all(
-			Array.from(files).map(async (file, index) => {
-				const arrayBuffer = await file.arrayBuffer();
-				return {
-					id: uuidv4(),
-					filename: file.name,
-					mp3Blob: arrayBuffer,
-					enabled: true, // All stems enabled by default
-					color: defaultColors[index % defaultColors.length]
-				};
-			})
-		);
+		// Encode one stem at a time - transcoding several lossless files at once is memory hungry
+		const stems: Stem[] = [];
+		for (const [index, file] of Array.from(files).entries()) {
+			stems.push({
+				id: uuidv4(),
+				filename: file.name,
+				mp3Blob: await prepareAudioForStorage(file, importSettings),
+				enabled: true, // All stems enabled by default
+				color: STEM_COLORS[index % STEM_COLORS.length]
+			});
+		}
 
 		// Use the first file's name as the session filename (or generate a combined name)
 		const sessionFilename = files.length === 1 
@@ -123,6 +395,7 @@ export class PersistenceService {
 
 		const session: TrackSession = {
 			id: uuidv4(),
+			schemaVersion: CURRENT_SCHEMA_VERSION,
 			filename: sessionFilename,
 			created: new Date().toISOString(),
 			bpm: 0, // Default BPM - will be detected from first stem
@@ -135,7 +408,11 @@ export class PersistenceService {
 			rectsPerBeatMode: 'auto', // Default to auto mode
 			mode: 'stem',
 			stems: stems,
-			rowHeight: 96 // Default row height in pixels
+			rowHeight: 96, // Default row height in pixels
+			tags: [],
+			savedLoops: [],
+			layers: [createDefaultLayer()],
+			lastOpened: new Date().toISOString()
 		};
 
 		await this.saveSession(session);
@@ -146,7 +423,7 @@ export class PersistenceService {
 	 * Create a new stem session from VirtualDJ stems extraction
 	 * Includes download blobs for each stem
 	 */
-	async createStemSessionFromVdjStems(files: FileList, downloadBlobs: Blob[]): Promise<TrackSession> {
+	async createStemSessionFromVdjStems(files: FileList, downloadBlobs: Blob[], importSettings: ImportSettings = DEFAULT_IMPORT_SETTINGS, sourceFilename?: string): Promise<TrackSession> {
 		if (files.length < 2) {
 			throw new Error('Stem sessions require at least 2 audio files');
 		}
@@ -155,30 +432,27 @@ export class PersistenceService {
 			throw new Error('Number of files and download blobs must match');
 		}
 
-		// Default colors for stems (can be customized later)
-		const defaultColors = ['#3b82f6', '#ef4444', '#10b981', '#f59e0b', '#8b5cf6', '#ec4899', '#06b6d4', '#84cc16'];
-		
-		const stems: Stem[] = await Promise.all(
-			Array.from(files).map(async (file, index) => {
-				const arrayBuffer = await file.arrayBuffer();
-				return {
-					id: uuidv4(),
-					filename: file.name,
-					mp3Blob: arrayBuffer,
-					enabled: true, // All stems enabled by default
-					color: defaultColors[index % defaultColors.length],
-					downloadBlob: downloadBlobs[index] // Preserve blob for download
-				};
-			})
-		);
+		const stems: Stem[] = [];
+		for (const [index, file] of Array.from(files).entries()) {
+			stems.push({
+				id: uuidv4(),
+				filename: file.name,
+				mp3Blob: await prepareAudioForStorage(file, importSettings),
+				enabled: true, // All stems enabled by default
+				color: STEM_COLORS[index % STEM_COLORS.length],
+				downloadBlob: downloadBlobs[index] // Preserve blob for download
+			});
+		}
 
-		// Use the first file's name as the session filename, removing .vdjstems extension if present
-		const baseName = files[0].name.replace(/\.(vdjstems|mp3\.vdjstems)$/i, '').replace(/\.[^/.]+$/, '');
+		// Name the session after the .vdjstems file (or the first stem), removing .vdjstems extension if present
+		const baseName = (sourceFilename ?? files[0].name).replace(/\.(vdjstems|mp3\.vdjstems)$/i, '').replace(/\.[^/.]+$/, '');
 		const sessionFilename = `${baseName} (${files.length} stems)`;
 
 		const session: TrackSession = {
 			id: uuidv4(),
+			schemaVersion: CURRENT_SCHEMA_VERSION,
 			filename: sessionFilename,
+			sourceFilename,
 			created: new Date().toISOString(),
 			bpm: 0, // Default BPM - will be detected from first stem
 			beatOffset: 0, // Default offset in milliseconds
@@ -190,7 +464,11 @@ export class PersistenceService {
 			rectsPerBeatMode: 'auto', // Default to auto mode
 			mode: 'stem',
 			stems: stems,
-			rowHeight: 96 // Default row height in pixels
+			rowHeight: 96, // Default row height in pixels
+			tags: [],
+			savedLoops: [],
+			layers: [createDefaultLayer()],
+			lastOpened: new Date().toISOString()
 		};
 
 		await this.saveSession(session);
@@ -198,201 +476,350 @@ export class PersistenceService {
 	}
 
 	/**
-	 * Update a session with new data
+	 * Apply a change to a stored session as a single read-modify-write.
+	 * Writes are serialized, so concurrent callers never overwrite each other's
+	 * changes; several fields changed in one mutator are saved in one write.
+	 * The mutator gets the session record without its audio, so edits never read
+	 * audio back; audio it attaches (mp3Blob) is moved to the blob store on save.
+	 * @param mutator - Modifies the session record in place; throwing aborts the patch
+	 * @returns the updated record, without audio
+	 */
+	async patchSession(
+		sessionId: string,
+		mutator: (session: TrackSession) => void | Promise<void>
+	): Promise<TrackSession> {
+		return await this.enqueueWrite(async () => {
+			const session: TrackSession | null = await this.readSessionRecord(`${SESSION_PREFIX}${sessionId}`);
+			if (!session) {
+				throw new Error('Session not found');
+			}
+
+			await mutator(session);
+			return await this.writeSessionRecord(session);
+		});
+	}
+
+	/**
+	 * Patch a session whose audio the caller needs afterwards, e.g. to reload playback
+	 */
+	private async patchSessionAudio(
+		sessionId: string,
+		mutator: (session: TrackSession) => void | Promise<void>
+	): Promise<TrackSession> {
+		return await this.hydrateAudio(await this.patchSession(sessionId, mutator));
+	}
+
+	/**
+	 * Run a write after every write already queued
+	 */
+	private enqueueWrite<T>(task: () => Promise<T>): Promise<T> {
+		// A failed write must not block the ones queued behind it
+		const result = writeQueue.catch(() => {}).then(() => withStorageLock(task));
+		writeQueue = result.catch(() => {});
+		return result;
+	}
+
+	/**
+	 * Update a session with new data. Only the record is merged: its audio and stems stay as
+	 * stored, and are changed through attachStems, replaceStem, removeStem and the other audio updates.
 	 */
 	async updateSession(session: TrackSession): Promise<TrackSession> {
-		// Load the existing session to preserve audio data
-		const existingSession = await this.loadSession(session.id);
-		if (!existingSession) {
-			throw new Error('Session not found');
-		}
-		
-		// Merge the new data with the existing session, preserving audio blobs based on mode
-		const updatedSession: TrackSession = {
-			...session,
-		};
-		
-		if (existingSession.mode === 'stem' || session.mode === 'stem') {
-			// For stem sessions, preserve stems array
-			updatedSession.stems = existingSession.stems || session.stems;
-		} else {
-			// For single mode sessions, preserve mp3Blob
-			updatedSession.mp3Blob = existingSession.mp3Blob || session.mp3Blob;
-		}
-		
-		await this.saveSession(updatedSession);
-		return updatedSession;
+		return await this.patchSession(session.id, (existingSession) => {
+			const { stems, mp3Blob, audioHash, ...metadata } = session;
+			Object.assign(existingSession, metadata);
+		});
 	}
 
 	/**
 	 * Update stem enabled state for a stem session
 	 */
 	async updateStemEnabled(sessionId: string, stemId: string, enabled: boolean): Promise<TrackSession> {
-		const session = await this.loadSession(sessionId);
-		if (!session) {
-			throw new Error('Session not found');
-		}
+		return await this.patchSession(sessionId, (session) => {
+			if (session.mode !== 'stem' || !session.stems) {
+				throw new Error('Session is not a stem session');
+			}
 
-		if (session.mode !== 'stem' || !session.stems) {
-			throw new Error('Session is not a stem session');
+			const stem = session.stems.find(s => s.id === stemId);
+			if (!stem) {
+				throw new Error('Stem not found');
+			}
+
+			stem.enabled = enabled;
+		});
+	}
+
+	/**
+	 * Add stems to a session, keeping its annotations, beat grid and settings.
+	 * A single-track session becomes a stem session whose first stem is its original
+	 * track; the track stays attached so the session can be converted back later.
+	 */
+	async attachStems(sessionId: string, files: File[], importSettings: ImportSettings = DEFAULT_IMPORT_SETTINGS): Promise<TrackSession> {
+		if (files.length === 0) {
+			throw new Error('Select at least one audio file');
 		}
 
-		const stem = session.stems.find(s => s.id === stemId);
-		if (!stem) {
-			throw new Error('Stem not found');
+		// Encode outside the write queue, one file at a time
+		const encoded: { filename: string; audio: ArrayBuffer }[] = [];
+		for (const file of files) {
+			encoded.push({ filename: file.name, audio: await prepareAudioForStorage(file, importSettings) });
 		}
 
-		stem.enabled = enabled;
-		await this.saveSession(session);
+		return await this.patchSessionAudio(sessionId, (session) => {
+			if (session.archivedAt) {
+				throw new Error('Session audio is archived');
+			}
+
+			const stems = session.mode === 'stem' ? [...(session.stems ?? [])] : [];
+			if (session.mode !== 'stem') {
+				if (!session.audioHash) {
+					throw new Error('Session has no audio');
+				}
+				stems.push({ id: uuidv4(), filename: session.filename, audioHash: session.audioHash, enabled: true, color: STEM_COLORS[0] });
+			}
+
+			for (const { filename, audio } of encoded) {
+				stems.push({ id: uuidv4(), filename, mp3Blob: audio, enabled: true, color: STEM_COLORS[stems.length % STEM_COLORS.length] });
+			}
+
+			session.mode = 'stem';
+			session.stems = stems;
+		});
+	}
+
+	/**
+	 * Replace one stem's audio with a new file; the stem keeps its color and enabled state
+	 */
+	async replaceStem(sessionId: string, stemId: string, file: File, importSettings: ImportSettings = DEFAULT_IMPORT_SETTINGS): Promise<TrackSession> {
+		const audio = await prepareAudioForStorage(file, importSettings);
+
+		const session = await this.patchSessionAudio(sessionId, (session) => {
+			const stem = session.stems?.find(s => s.id === stemId);
+			if (session.mode !== 'stem' || !stem) {
+				throw new Error('Stem not found');
+			}
+
+			stem.filename = file.name;
+			stem.mp3Blob = audio;
+			// The preserved download belonged to the old audio
+			delete stem.downloadBlob;
+			delete stem.downloadHash;
+		});
+		await this.collectUnreferencedAudio();
+
 		return session;
 	}
-	
+
 	/**
-	 * Update target BPM for a session
+	 * Remove one stem. Stem sessions keep at least two stems; use convertToSingleTrack below that.
 	 */
-	async updateSessionTargetBPM(sessionId: string, targetBPM: number): Promise<TrackSession> {
-		const session = await this.loadSession(sessionId);
-		if (!session) {
-			throw new Error('Session not found');
-		}
-		
-		session.targetBPM = targetBPM;
-		await this.saveSession(session);
+	async removeStem(sessionId: string, stemId: string): Promise<TrackSession> {
+		const session = await this.patchSessionAudio(sessionId, (session) => {
+			const stems = session.mode === 'stem' ? (session.stems ?? []) : [];
+			if (!stems.some(s => s.id === stemId)) {
+				throw new Error('Stem not found');
+			}
+			if (stems.length <= 2) {
+				throw new Error('Stem sessions need at least 2 stems; convert to a single track instead');
+			}
+
+			session.stems = stems.filter(s => s.id !== stemId);
+		});
+		await this.collectUnreferencedAudio();
+
 		return session;
 	}
 
 	/**
-	 * Update BPM for a session and regenerate beats
+	 * Turn a stem session back into a single-track session, keeping annotations and the beat grid.
+	 * The session's own track is used when it still has one (stems were attached to it),
+	 * otherwise the audio of the given stem becomes the track.
 	 */
-	async updateSessionBpm(sessionId: string, bpm: number, duration: number, isManual: boolean = false): Promise<TrackSession> {
-		const session = await this.loadSession(sessionId);
-		if (!session) {
-			throw new Error('Session not found');
-		}
+	async convertToSingleTrack(sessionId: string, stemId?: string): Promise<TrackSession> {
+		const session = await this.patchSessionAudio(sessionId, (session) => {
+			if (session.mode !== 'stem' || !session.stems) {
+				throw new Error('Session is not a stem session');
+			}
 
-		session.bpm = bpm;
-		session.manualBpm = isManual;
-		
-		// Regenerate beats array based on new BPM
-		const beatInterval = 60 / bpm; // seconds per beat
-		const offsetInSeconds = session.beatOffset / 1000; // Convert ms to seconds
-		const totalBeats = Math.floor((duration - offsetInSeconds) / beatInterval);
-		
+			if (!session.audioHash) {
+				const stem = session.stems.find(s => s.id === stemId);
+				if (!stem) {
+					throw new Error('Choose the stem to keep as the track');
+				}
+				session.audioHash = stem.audioHash;
+			}
 
-		session.beats = [];
-		for (let i = 0; i < totalBeats; i++) {
-			session.beats.push({
-				index: i,
-				time: (i * beatInterval) + offsetInSeconds,
-			});
-		}
+			session.mode = 'single';
+			delete session.stems;
+		});
+		await this.collectUnreferencedAudio();
 
-		await this.saveSession(session);
 		return session;
 	}
+	
+	/**
+	 * Update target BPM for a session
+	 */
+	async updateSessionTargetBPM(sessionId: string, targetBPM: number): Promise<TrackSession> {
+		return await this.patchSession(sessionId, (session) => {
+			session.targetBPM = targetBPM;
+		});
+	}
+
+	/**
+	 * Update BPM for a session and regenerate beats
+	 */
+	async updateSessionBpm(sessionId: string, bpm: number, duration: number, isManual: boolean = false): Promise<TrackSession> {
+		return await this.patchSession(sessionId, (session) => {
+			session.bpm = bpm;
+			session.manualBpm = isManual;
+			session.duration = duration;
+			session.beats = generateBeats(bpm, session.beatOffset, duration, session.tempoMap, session.beatAnchors);
+		});
+	}
 
 	/**
 	 * Update beat offset for a session and regenerate beats
 	 */
 	async updateSessionOffset(sessionId: string, offsetMs: number, duration: number): Promise<TrackSession> {
-		const session = await this.loadSession(sessionId);
-		if (!session) {
-			throw new Error('Session not found');
-		}
+		return await this.patchSession(sessionId, (session) => {
+			session.beatOffset = Math.round(offsetMs);
+			session.duration = duration;
+			session.beats = generateBeats(session.bpm, session.beatOffset, duration, session.tempoMap, session.beatAnchors);
+		});
+	}
 
-		session.beatOffset = Math.round(offsetMs);
-		
-		// Regenerate beats array with new offset
-		const beatInterval = 60 / session.bpm; // seconds per beat
-		const offsetInSeconds = session.beatOffset / 1000; // Convert ms to seconds
-		const totalBeats = Math.floor((duration - offsetInSeconds) / beatInterval);
-		
+	/**
+	 * Replace the tempo changes of a session and regenerate beats
+	 */
+	async updateTempoMap(sessionId: string, tempoMap: TempoSection[], duration: number): Promise<TrackSession> {
+		return await this.patchSession(sessionId, (session) => {
+			const normalized = normalizeTempoMap(tempoMap);
+			session.tempoMap = normalized.length > 0 ? normalized : undefined;
+			session.duration = duration;
+			session.beats = generateBeats(session.bpm, session.beatOffset, duration, session.tempoMap, session.beatAnchors);
+		});
+	}
 
-		session.beats = [];
-		for (let i = 0; i < totalBeats; i++) {
-			session.beats.push({
-				index: i,
-				time: (i * beatInterval) + offsetInSeconds,
-			});
-		}
 
-		await this.saveSession(session);
-		return session;
+	/**
+	 * Replace the beats pinned to the audio and regenerate beats
+	 */
+	async updateBeatAnchors(sessionId: string, beatAnchors: BeatAnchor[], duration: number): Promise<TrackSession> {
+		return await this.patchSession(sessionId, (session) => {
+			const normalized = normalizeBeatAnchors(beatAnchors);
+			session.beatAnchors = normalized.length > 0 ? normalized : undefined;
+			session.duration = duration;
+			session.beats = generateBeats(session.bpm, session.beatOffset, duration, session.tempoMap, session.beatAnchors);
+		});
 	}
 
+	/**
+	 * Record a new audio duration, e.g. after stems changed, and regenerate beats to cover it
+	 */
+	async updateSessionDuration(sessionId: string, duration: number): Promise<TrackSession> {
+		return await this.patchSession(sessionId, (session) => {
+			session.duration = duration;
+			session.beats = generateBeats(session.bpm, session.beatOffset, duration, session.tempoMap, session.beatAnchors);
+		});
+	}
 
 	/**
 	 * Update beats per line for a session
 	 */
 	async updateBeatsPerLine(sessionId: string, beatsPerLine: number): Promise<TrackSession> {
-		const session = await this.loadSession(sessionId);
-		if (!session) {
-			throw new Error('Session not found');
-		}
-
-		session.beatsPerLine = beatsPerLine;
-		await this.saveSession(session);
-		return session;
+		return await this.patchSession(sessionId, (session) => {
+			session.beatsPerLine = beatsPerLine;
+		});
 	}
 
 	/**
 	 * Update rectangles per beat mode (auto or manual value)
 	 */
 	async updateRectsPerBeatMode(sessionId: string, rectsPerBeatMode: 'auto' | number): Promise<TrackSession> {
-		const session = await this.loadSession(sessionId);
-		if (!session) {
-			throw new Error('Session not found');
-		}
-
-		session.rectsPerBeatMode = rectsPerBeatMode;
-		await this.saveSession(session);
-		return session;
+		return await this.patchSession(sessionId, (session) => {
+			session.rectsPerBeatMode = rectsPerBeatMode;
+		});
 	}
 
 	/**
 	 * Update row height for waveform display
 	 */
 	async updateRowHeight(sessionId: string, rowHeight: number): Promise<TrackSession> {
-		const session = await this.loadSession(sessionId);
-		if (!session) {
-			throw new Error('Session not found');
-		}
+		return await this.patchSession(sessionId, (session) => {
+			session.rowHeight = rowHeight;
+		});
+	}
 
-		session.rowHeight = rowHeight;
-		await this.saveSession(session);
-		return session;
+	/**
+	 * Save the session's working state (loops, visibility, playhead).
+	 * Saved often during practice, so only the session record is rewritten
+	 * and other tabs are not notified: working state belongs to the tab using it.
+	 */
+	async updateWorkingState(sessionId: string, workingState: WorkingState): Promise<void> {
+		const sessionKey = `${SESSION_PREFIX}${sessionId}`;
+		await this.enqueueWrite(async () => {
+			const stored = await this.readSessionRecord(sessionKey);
+			if (!stored) {
+				throw new Error('Session not found');
+			}
+
+			await set(sessionKey, { ...stored, workingState });
+		});
 	}
 
 	/**
 	 * Update session filename
 	 */
 	async updateSessionFilename(sessionId: string, filename: string): Promise<TrackSession> {
-		const session = await this.loadSession(sessionId);
-		if (!session) {
-			throw new Error('Session not found');
-		}
+		return await this.patchSession(sessionId, (session) => {
+			session.filename = filename;
+		});
+	}
 
-		session.filename = filename;
-		await this.saveSession(session);
-		return session;
+	/**
+	 * Record that a session was opened, along with its decoded audio duration
+	 */
+	async markSessionOpened(sessionId: string, duration?: number): Promise<TrackSession> {
+		return await this.patchSession(sessionId, (session) => {
+			session.lastOpened = new Date().toISOString();
+			if (duration) {
+				session.duration = duration;
+			}
+		});
+	}
+
+	/**
+	 * Replace the library tags of a session
+	 */
+	async updateSessionTags(sessionId: string, tags: string[]): Promise<TrackSession> {
+		return await this.patchSession(sessionId, (session) => {
+			session.tags = [...new Set(tags.map(normalizeTag).filter(Boolean))];
+		});
 	}
 
 	/**
-	 * List all stored sessions (metadata only, no audio blobs)
+	 * File a session under a library folder (empty string removes it from its folder)
 	 */
-	async listSessions(): Promise<Array<Omit<TrackSession, 'mp3Blob' | 'stems'> & { stemCount?: number; stemsEnabled?: number }>> {
+	async updateSessionFolder(sessionId: string, folder: string): Promise<TrackSession> {
+		return await this.patchSession(sessionId, (session) => {
+			session.folder = folder.trim() || undefined;
+		});
+	}
+
+	/**
+	 * List stored sessions (metadata only, no audio blobs)
+	 * @param query - Optional search, filter and sort options; defaults to newest first
+	 */
+	async listSessions(query: SessionQuery = {}): Promise<SessionSummary[]> {
 		try {
-			const allKeys = await keys();
-			const sessionKeys = allKeys.filter(key => 
-				typeof key === 'string' && key.startsWith(SESSION_PREFIX)
-			);
+			const sessionKeys = await this.getSessionKeys();
 
 			const sessions = await Promise.all(
 				sessionKeys.map(async (key) => {
-					const session = await get(key) as TrackSession;
+					// Records hold no audio, so listing never touches the blob store
+					const session = await this.readSessionRecord(key);
 					if (session) {
-						// Return session metadata without the audio blobs
-						const { mp3Blob, stems, ...metadata } = session;
+						const { stems, ...metadata } = session;
 						// For stem sessions, include stem count and enabled state in metadata
 						if (session.mode === 'stem' && stems) {
 							return {
@@ -407,28 +834,142 @@ export class PersistenceService {
 				})
 			);
 
-			return sessions
-				.filter(session => session !== null)
-				.sort((a, b) => new Date(b.created).getTime() - new Date(a.created).getTime());
+			return querySessions(
+				sessions.filter((session): session is SessionSummary => session !== null),
+				query
+			);
 		} catch (error) {
 			console.error('Failed to list sessions:', error);
 			return [];
 		}
 	}
 
+	/**
+	 * Export a session with all of its audio as a portable .mnerd bundle
+	 */
+	async exportSessionBundle(sessionId: string): Promise<Blob> {
+		const session = await this.loadSession(sessionId);
+		if (!session) {
+			throw new Error('Session not found');
+		}
+
+		if (session.archivedAt) {
+			throw new Error('Session audio is archived');
+		}
+
+		// Bundles carry the cover image itself; its hash means nothing on another device
+		const coverArtHash = session.metadata?.coverArtHash;
+		const coverArt = coverArtHash ? await this.loadCoverArt(coverArtHash) : undefined;
+		if (coverArt) {
+			session.metadata = { ...session.metadata, coverArt };
+		}
+
+		return await createSessionBundle(session);
+	}
+
+	/**
+	 * Export a stem session as a REAPER project with its stem audio, zipped
+	 */
+	async exportReaperProject(sessionId: string): Promise<Blob> {
+		const session = await this.loadSession(sessionId);
+		if (!session) {
+			throw new Error('Session not found');
+		}
+
+		if (session.archivedAt) {
+			throw new Error('Session audio is archived');
+		}
+
+		return await createReaperExport(session);
+	}
+
+	/**
+	 * Export the session's track as an MP3 whose ID3 tag lists its sections as chapters
+	 * @param bitrate - MP3 bitrate in kbps, used when the stored audio is not already MP3
+	 */
+	async exportChapteredMp3(sessionId: string, bitrate: number): Promise<Blob> {
+		const session = await this.loadSession(sessionId);
+		if (!session) {
+			throw new Error('Session not found');
+		}
+
+		if (!session.mp3Blob) {
+			throw new Error(session.archivedAt ? 'Session audio is archived' : 'Session has no full track, only stems');
+		}
+
+		let audio = new Uint8Array(session.mp3Blob);
+		if (!isMp3Data(audio)) {
+			audio = new Uint8Array(await transcodeToMp3(new Blob([session.mp3Blob]), bitrate));
+		}
+
+		const tag = buildChapterTag(
+			{ title: stripExtension(session.filename), ...session.metadata },
+			getChapters(session.annotations),
+			readId3Frames(audio)
+		);
+		return new Blob([replaceId3Tag(audio, tag)], { type: 'audio/mpeg' });
+	}
+
+	/**
+	 * Import a .mnerd bundle as a new session
+	 * A fresh ID is assigned when a session with the same ID already exists
+	 */
+	async importSessionBundle(bundle: Blob | ArrayBuffer): Promise<TrackSession> {
+		const session = await parseSessionBundle(bundle);
+
+		const existing = await this.readSessionRecord(`${SESSION_PREFIX}${session.id}`);
+		if (existing) {
+			session.id = uuidv4();
+		}
+
+		await this.saveSession(session);
+		return session;
+	}
+
+	/**
+	 * Duplicate a session as a variation with its own annotations, beat grid and loops.
+	 * The copy references the same stored audio, so no audio is copied.
+	 * Variations of a variation point at the original track, keeping groups one level deep.
+	 */
+	async duplicateSession(sessionId: string, filename?: string): Promise<SessionSummary> {
+		return await this.enqueueWrite(async () => {
+			const source = await this.readSessionRecord(`${SESSION_PREFIX}${sessionId}`);
+			if (!source) {
+				throw new Error('Session not found');
+			}
+
+			const copy: StoredSession = {
+				...structuredClone(source),
+				id: uuidv4(),
+				filename: filename ?? `${source.filename} (variation)`,
+				created: new Date().toISOString(),
+				lastOpened: undefined,
+				sourceSessionId: source.sourceSessionId ?? source.id
+			};
+			copy.annotations = copy.annotations.map((annotation) => ({ ...annotation, id: uuidv4() }));
+			copy.savedLoops = copy.savedLoops?.map((loop) => ({ ...loop, id: uuidv4() }));
+
+			return await this.writeSessionRecord(copy);
+		});
+	}
+
 	/**
 	 * Delete a session
 	 */
 	async deleteSession(sessionId: string): Promise<void> {
 		try {
 			const sessionKey = `${SESSION_PREFIX}${sessionId}`;
-			await del(sessionKey);
+			// Let pending writes finish first so they cannot recreate the record
+			await this.enqueueWrite(() => del(sessionKey));
 
 			// If this was the current session, clear the current session pointer
 			const currentSessionId = await get(CURRENT_SESSION_KEY);
 			if (currentSessionId === sessionId) {
 				await del(CURRENT_SESSION_KEY);
 			}
+			sessionSync.notifyDeleted(sessionId);
+
+			await this.collectUnreferencedAudio();
 		} catch (error) {
 			throw new Error(`Failed to delete session: ${error}`);
 		}
@@ -440,6 +981,7 @@ export class PersistenceService {
 	async clearAll(): Promise<void> {
 		try {
 			await clear();
+			await audioBlobStore.clear();
 		} catch (error) {
 			throw new Error(`Failed to clear storage: ${error}`);
 		}
@@ -471,153 +1013,422 @@ export class PersistenceService {
 		if (!usage) return false;
 		
 		// Warn if using more than 80% of quota
-		return usage.used / usage.quota > 0.8;
+		return isNearQuota(usage.used, usage.quota);
 	}
 
 	/**
-	 * Add an annotation to a session
+	 * Bytes each session occupies, largest first.
+	 * Audio used by several sessions is counted once, as shared, outside their totals.
 	 */
-	async addAnnotation(sessionId: string, startTimeMs: number, endTimeMs: number, label: string, color: string, isPoint?: boolean): Promise<{ annotationId: string; session: TrackSession }> {
-		const session = await this.loadSession(sessionId);
-		if (!session) {
-			throw new Error('Session not found');
+	async getStorageBreakdown(): Promise<SessionStorageUsage[]> {
+		const records = await this.readSessionRecords();
+		const referenceCounts = countBlobReferences(records);
+		const usages: SessionStorageUsage[] = [];
+
+		for (const stored of records) {
+			const { audio, stems, downloads, covers } = getBlobReferences(stored);
+			let sharedBytes = 0;
+			const measure = async (hashes: string[]) => {
+				let ownBytes = 0;
+				for (const hash of hashes) {
+					const size = await audioBlobStore.getSize(hash);
+					if ((referenceCounts.get(hash) ?? 0) > 1) {
+						sharedBytes += size;
+					} else {
+						ownBytes += size;
+					}
+				}
+				return ownBytes;
+			};
+
+			const audioBytes = await measure(audio);
+			const stemBytes = await measure(stems);
+			const downloadBytes = await measure(downloads);
+			const recordBytes = new TextEncoder().encode(JSON.stringify(stored)).byteLength;
+			const metadataBytes = recordBytes + await measure(covers);
+
+			usages.push({
+				sessionId: stored.id,
+				filename: stored.filename,
+				mode: stored.mode ?? 'single',
+				audioBytes,
+				stemBytes,
+				downloadBytes,
+				sharedBytes,
+				metadataBytes,
+				totalBytes: audioBytes + stemBytes + downloadBytes + metadataBytes,
+				archivedAt: stored.archivedAt
+			});
 		}
 
-		// Snap to 25ms increments
-		const snappedStartTime = Math.round(startTimeMs / 25) * 25;
-		const snappedEndTime = Math.round(endTimeMs / 25) * 25;
-
-		const annotation: Annotation = {
-			id: uuidv4(),
-			startTimeMs: snappedStartTime,
-			endTimeMs: snappedEndTime,
-			label,
-			color,
-			isPoint
-		};
-
-		// Initialize annotations array if it doesn't exist (for backwards compatibility)
-		if (!session.annotations) {
-			session.annotations = [];
-		}
+		return usages.sort((a, b) => b.totalBytes - a.totalBytes);
+	}
 
-		session.annotations.push(annotation);
-		await this.saveSession(session);
-		
-		return { annotationId: annotation.id, session };
+	/**
+	 * Drop the original stem files kept for download; playback audio is untouched
+	 */
+	async dropStemDownloads(sessionId: string): Promise<void> {
+		await this.patchSession(sessionId, (session) => {
+			for (const stem of session.stems ?? []) {
+				delete stem.downloadBlob;
+				delete stem.downloadHash;
+			}
+		});
+		await this.collectUnreferencedAudio();
 	}
 
 	/**
-	 * Update an existing annotation
+	 * Re-encode a session's audio to MP3 at the given bitrate, keeping each file
+	 * only where the result is smaller
+	 * @returns Bytes saved
 	 */
-	async updateAnnotation(sessionId: string, annotationId: string, updates: Partial<Omit<Annotation, 'id'>>): Promise<TrackSession> {
+	async compressSessionAudio(sessionId: string, bitrate: number): Promise<number> {
 		const session = await this.loadSession(sessionId);
 		if (!session) {
 			throw new Error('Session not found');
 		}
 
-		// Initialize annotations array if it doesn't exist (for backwards compatibility)
-		if (!session.annotations) {
-			session.annotations = [];
+		// Encode outside the write queue so edits are not blocked while it runs
+		const compressed = new Map<string, ArrayBuffer>(); // original hash -> smaller audio
+		let bytesSaved = 0;
+		const payloads: [string | undefined, ArrayBuffer | undefined][] = [
+			[session.audioHash, session.mp3Blob],
+			...(session.stems ?? []).map((stem): [string | undefined, ArrayBuffer | undefined] => [stem.audioHash, stem.mp3Blob])
+		];
+		for (const [hash, audio] of payloads) {
+			if (!hash || !audio || compressed.has(hash)) continue;
+
+			const result = await transcodeToMp3(new Blob([audio]), bitrate);
+			if (result.byteLength < audio.byteLength) {
+				compressed.set(hash, result);
+				bytesSaved += audio.byteLength - result.byteLength;
+			}
 		}
 
-		const annotation = session.annotations.find(a => a.id === annotationId);
-		if (!annotation) {
-			throw new Error('Annotation not found');
+		if (compressed.size === 0) {
+			return 0;
 		}
 
-		// Apply updates with snapping for time values
-		if (updates.startTimeMs !== undefined) {
-			annotation.startTimeMs = Math.round(updates.startTimeMs / 25) * 25;
+		await this.patchSession(sessionId, (latest) => {
+			const replacement = latest.audioHash ? compressed.get(latest.audioHash) : undefined;
+			if (replacement) {
+				latest.mp3Blob = replacement;
+			}
+			for (const stem of latest.stems ?? []) {
+				const stemReplacement = stem.audioHash ? compressed.get(stem.audioHash) : undefined;
+				if (stemReplacement) {
+					stem.mp3Blob = stemReplacement;
+				}
+			}
+		});
+		await this.collectUnreferencedAudio();
+
+		return bytesSaved;
+	}
+
+	/**
+	 * Remove a session's audio but keep its annotations, beat grid and settings.
+	 * The record keeps its audio hashes so restoreSessionAudio knows what to bring back;
+	 * garbage collection ignores them. Stem downloads are dropped for good.
+	 */
+	async archiveSessionAudio(sessionId: string): Promise<void> {
+		await this.patchSession(sessionId, (session) => {
+			for (const stem of session.stems ?? []) {
+				delete stem.downloadBlob;
+				delete stem.downloadHash;
+			}
+			session.archivedAt = new Date().toISOString();
+		});
+		await this.collectUnreferencedAudio();
+	}
+
+	/**
+	 * Re-attach audio to an archived session from files the user selects again.
+	 * Every audio the record references that is no longer stored needs a file, matched by
+	 * filename: the main track and each stem. Audio another session still stores is reused.
+	 */
+	async restoreSessionAudio(
+		sessionId: string,
+		files: File[],
+		importSettings: ImportSettings = DEFAULT_IMPORT_SETTINGS
+	): Promise<TrackSession> {
+		const stored = await this.readSessionRecord(`${SESSION_PREFIX}${sessionId}`);
+		if (!stored) {
+			throw new Error('Session not found');
 		}
-		if (updates.endTimeMs !== undefined) {
-			annotation.endTimeMs = Math.round(updates.endTimeMs / 25) * 25;
+
+		// Missing audio keyed by hash, so audio used twice (the original track kept as a stem)
+		// needs one file. Sessions archived before hashes were kept have none; they fall back
+		// to the stem ID, or MAIN_TRACK for single tracks.
+		const MAIN_TRACK = 'main';
+		const isStored = async (hash: string | undefined) => !!hash && await audioBlobStore.has(hash);
+		const missing = new Map<string, string>(); // key -> filename to match
+		for (const stem of stored.stems ?? []) {
+			const key = stem.audioHash ?? stem.id;
+			if (!missing.has(key) && !(await isStored(stem.audioHash))) {
+				missing.set(key, stem.filename);
+			}
 		}
-		if (updates.label !== undefined) {
-			annotation.label = updates.label;
+		const mainKey = stored.audioHash ?? (stored.mode === 'stem' ? undefined : MAIN_TRACK);
+		if (mainKey && !missing.has(mainKey) && !(await isStored(stored.audioHash))) {
+			missing.set(mainKey, stored.filename);
 		}
-		if (updates.color !== undefined) {
-			annotation.color = updates.color;
+
+		const targets = [...missing].map(([id, filename]) => ({ id, filename }));
+		// A lone file restores a lone track whatever it is called
+		const { matches, missing: unmatched } = targets.length === 1 && files.length === 1
+			? { matches: new Map([[targets[0].id, files[0]]]), missing: [] }
+			: matchStemFiles(targets, files);
+		if (unmatched.length > 0) {
+			throw new Error(`Missing audio for: ${unmatched.join(', ')}`);
 		}
-		if (updates.rowIndex !== undefined) {
-			annotation.rowIndex = updates.rowIndex;
+
+		const restored = new Map<string, ArrayBuffer>();
+		const encoded = new Map<File, ArrayBuffer>();
+		for (const [key, file] of matches) {
+			const audio = encoded.get(file) ?? await prepareAudioForStorage(file, importSettings);
+			encoded.set(file, audio);
+			restored.set(key, audio);
 		}
 
-		await this.saveSession(session);
-		return session;
+		return await this.patchSession(sessionId, (session) => {
+			const mainAudio = restored.get(session.audioHash ?? MAIN_TRACK);
+			if (mainAudio) {
+				session.mp3Blob = mainAudio;
+			}
+			for (const stem of session.stems ?? []) {
+				const audio = restored.get(stem.audioHash ?? stem.id);
+				if (audio) {
+					stem.mp3Blob = audio;
+				}
+			}
+			delete session.archivedAt;
+		});
+	}
+
+	/**
+	 * Add an annotation to a session
+	 */
+	async addAnnotation(sessionId: string, startTimeMs: number, endTimeMs: number, label: string, color: string, isPoint?: boolean, layerId?: string): Promise<{ annotationId: string; session: TrackSession }> {
+		const annotation: Annotation = {
+			id: uuidv4(),
+			startTimeMs: snapTime(startTimeMs),
+			endTimeMs: snapTime(endTimeMs),
+			label,
+			color,
+			isPoint,
+			layerId
+		};
+
+		const session = await this.patchSession(sessionId, (session) => {
+			annotation.layerId = resolveLayerId(annotation, getLayers(session));
+			assertAnnotationUnlocked(session, annotation);
+			session.annotations.push(annotation);
+		});
+		
+		return { annotationId: annotation.id, session };
+	}
+
+	/**
+	 * Add several annotations at once, e.g. from an imported file
+	 * @param layerId - Layer for annotations that are not on one of the session's layers, defaulting to the first layer
+	 * @param replace - Remove the existing annotations first, except those on locked layers
+	 */
+	async addAnnotations(sessionId: string, annotations: Omit<Annotation, 'id'>[], layerId?: string, replace = false): Promise<TrackSession> {
+		return await this.patchSession(sessionId, (session) => {
+			const layers = getLayers(session);
+			const targetLayerId = resolveLayerId({ layerId }, layers);
+			if (replace) {
+				session.annotations = session.annotations.filter((annotation) => isAnnotationLocked(annotation, layers));
+			}
+			for (const annotation of annotations) {
+				const added: Annotation = {
+					...annotation,
+					id: uuidv4(),
+					startTimeMs: snapTime(annotation.startTimeMs),
+					endTimeMs: snapTime(annotation.endTimeMs),
+					layerId: resolveLayerId(annotation, layers, targetLayerId)
+				};
+				assertAnnotationUnlocked(session, added);
+				session.annotations.push(added);
+			}
+		});
+	}
+
+	/**
+	 * Update an existing annotation
+	 */
+	async updateAnnotation(sessionId: string, annotationId: string, updates: Partial<Omit<Annotation, 'id'>>): Promise<TrackSession> {
+		return await this.patchSession(sessionId, (session) => {
+			const annotation = session.annotations.find(a => a.id === annotationId);
+			if (!annotation) {
+				throw new Error('Annotation not found');
+			}
+
+			assertAnnotationUnlocked(session, annotation);
+			applyAnnotationUpdates(annotation, updates);
+		});
 	}
 
 	/**
 	 * Bulk update annotations by a filter function
 	 * @param sessionId - The session ID
 	 * @param filter - Function to determine which annotations to update
-	 * @param updates - Updates to apply to matching annotations
+	 * @param updates - Updates to apply to matching annotations, or a function computing them per annotation
 	 */
 	async updateAnnotationsBulk(
 		sessionId: string,
 		filter: (annotation: Annotation) => boolean,
-		updates: Partial<Omit<Annotation, 'id'>>
+		updates: Partial<Omit<Annotation, 'id'>> | ((annotation: Annotation) => Partial<Omit<Annotation, 'id'>>)
 	): Promise<TrackSession> {
-		const session = await this.loadSession(sessionId);
-		if (!session) {
-			throw new Error('Session not found');
-		}
-
-		if (!session.annotations) {
-			session.annotations = [];
-		}
-
-		// Apply updates to all matching annotations
-		for (const annotation of session.annotations) {
-			if (filter(annotation)) {
-				if (updates.label !== undefined) {
-					annotation.label = updates.label;
-				}
-				if (updates.color !== undefined) {
-					annotation.color = updates.color;
+		return await this.patchSession(sessionId, (session) => {
+			// Apply updates to all matching annotations, leaving locked layers untouched
+			const layers = getLayers(session);
+			for (const annotation of session.annotations) {
+				if (filter(annotation) && !isAnnotationLocked(annotation, layers)) {
+					applyAnnotationUpdates(annotation, typeof updates === 'function' ? updates(annotation) : updates);
 				}
 			}
-		}
-
-		await this.saveSession(session);
-		return session;
+		});
 	}
 
 	/**
 	 * Remove an annotation from a session
 	 */
 	async removeAnnotation(sessionId: string, annotationId: string): Promise<TrackSession> {
-		const session = await this.loadSession(sessionId);
-		if (!session) {
-			throw new Error('Session not found');
-		}
+		return await this.patchSession(sessionId, (session) => {
+			const annotationIndex = session.annotations.findIndex(a => a.id === annotationId);
+			if (annotationIndex < 0) {
+				throw new Error('Annotation not found');
+			}
 
-		// Initialize annotations array if it doesn't exist (for backwards compatibility)
-		if (!session.annotations) {
-			session.annotations = [];
-		}
+			assertAnnotationUnlocked(session, session.annotations[annotationIndex]);
+			session.annotations.splice(annotationIndex, 1);
+		});
+	}
 
-		const annotationIndex = session.annotations.findIndex(a => a.id === annotationId);
-		if (annotationIndex < 0) {
-			throw new Error('Annotation not found');
-		}
+	/**
+	 * Save a named loop to a session's loop library
+	 */
+	async addSavedLoop(sessionId: string, name: string, loop: Pick<SavedLoop, 'segments' | 'loopingChunks' | 'loopMarkers'>): Promise<{ loopId: string; session: TrackSession }> {
+		const savedLoop: SavedLoop = {
+			id: uuidv4(),
+			name,
+			segments: loop.segments,
+			loopingChunks: loop.loopingChunks,
+			loopMarkers: loop.loopMarkers,
+			created: new Date().toISOString()
+		};
 
-		session.annotations.splice(annotationIndex, 1);
-		await this.saveSession(session);
-		return session;
+		const session = await this.patchSession(sessionId, (session) => {
+			session.savedLoops = [...(session.savedLoops ?? []), savedLoop];
+		});
+
+		return { loopId: savedLoop.id, session };
 	}
 
 	/**
-	 * Clear all annotations from a session
+	 * Rename a saved loop
+	 */
+	async renameSavedLoop(sessionId: string, loopId: string, name: string): Promise<TrackSession> {
+		return await this.patchSession(sessionId, (session) => {
+			const loop = session.savedLoops?.find((l) => l.id === loopId);
+			if (!loop) {
+				throw new Error('Loop not found');
+			}
+
+			loop.name = name;
+		});
+	}
+
+	/**
+	 * Reorder a session's saved loops
+	 * @param loopIds - Loop IDs in their new order
+	 */
+	async reorderSavedLoops(sessionId: string, loopIds: string[]): Promise<TrackSession> {
+		return await this.patchSession(sessionId, (session) => {
+			session.savedLoops = orderById(session.savedLoops ?? [], loopIds);
+		});
+	}
+
+	/**
+	 * Remove a saved loop
+	 */
+	async removeSavedLoop(sessionId: string, loopId: string): Promise<TrackSession> {
+		return await this.patchSession(sessionId, (session) => {
+			session.savedLoops = (session.savedLoops ?? []).filter((l) => l.id !== loopId);
+		});
+	}
+
+	/**
+	 * Clear all annotations from a session, except those on locked layers
 	 */
 	async clearAllAnnotations(sessionId: string): Promise<TrackSession> {
-		const session = await this.loadSession(sessionId);
-		if (!session) {
-			throw new Error('Session not found');
-		}
-		session.annotations = [];
-		await this.saveSession(session);
-		return session;
+		return await this.patchSession(sessionId, (session) => {
+			const layers = getLayers(session);
+			session.annotations = session.annotations.filter((annotation) => isAnnotationLocked(annotation, layers));
+		});
+	}
+
+	/**
+	 * Add an empty annotation layer after the existing ones
+	 */
+	async addLayer(sessionId: string, name: string): Promise<{ layerId: string; session: TrackSession }> {
+		const layer: AnnotationLayer = { id: uuidv4(), name, visible: true, locked: false };
+
+		const session = await this.patchSession(sessionId, (session) => {
+			session.layers = [...getLayers(session), layer];
+		});
+
+		return { layerId: layer.id, session };
+	}
+
+	/**
+	 * Rename a layer or change its visibility or lock
+	 */
+	async updateLayer(sessionId: string, layerId: string, updates: Partial<Omit<AnnotationLayer, 'id'>>): Promise<TrackSession> {
+		return await this.patchSession(sessionId, (session) => {
+			const layers = getLayers(session);
+			const layer = layers.find((l) => l.id === layerId);
+			if (!layer) {
+				throw new Error('Layer not found');
+			}
+
+			Object.assign(layer, updates);
+			session.layers = layers;
+		});
+	}
+
+	/**
+	 * Reorder a session's layers, which also reorders their lanes
+	 * @param layerIds - Layer IDs in their new order
+	 */
+	async reorderLayers(sessionId: string, layerIds: string[]): Promise<TrackSession> {
+		return await this.patchSession(sessionId, (session) => {
+			session.layers = orderById(getLayers(session), layerIds);
+		});
+	}
+
+	/**
+	 * Remove a layer and its annotations. The last remaining layer cannot be removed.
+	 */
+	async removeLayer(sessionId: string, layerId: string): Promise<TrackSession> {
+		return await this.patchSession(sessionId, (session) => {
+			const layers = getLayers(session);
+			const layer = layers.find((l) => l.id === layerId);
+			if (!layer) {
+				throw new Error('Layer not found');
+			}
+			if (layer.locked) {
+				throw new Error('Layer is locked');
+			}
+			if (layers.length === 1) {
+				throw new Error('A session needs at least one layer');
+			}
+
+			session.annotations = session.annotations.filter((annotation) => resolveLayerId(annotation, layers) !== layerId);
+			session.layers = layers.filter((l) => l.id !== layerId);
+		});
 	}
 	
 	/**
@@ -629,11 +1440,6 @@ export class PersistenceService {
 			throw new Error('Session not found');
 		}
 
-		// Initialize annotations array if it doesn't exist (for backwards compatibility)
-		if (!session.annotations) {
-			return [];
-		}
-
 		return session.annotations.filter(annotation => 
 			// Check if annotation overlaps with the requested range
 			annotation.startTimeMs < endTimeMs && annotation.endTimeMs > startTimeMs
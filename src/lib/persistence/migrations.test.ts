@@ -0,0 +1,173 @@
+import { describe, it, expect } from 'vitest';
+import { migrateSession, CURRENT_SCHEMA_VERSION } from './migrations';
+import { createDefaultLayer, DEFAULT_LAYER_ID } from '../utils/annotationLayers';
+import { generateBeats } from '../utils/beatGrid';
+import { getChunkStartTime } from '../utils/svgWaveform';
+
+describe('migrateSession', () => {
+	it('upgrades unversioned sessions and fills missing defaults', () => {
+		const { session, migrated } = migrateSession({
+			id: 'legacy',
+			filename: 'old.mp3',
+			created: '2024-01-01T00:00:00.000Z',
+			bpm: 120,
+			beatOffset: 0,
+			beats: []
+		});
+
+		expect(migrated).toBe(true);
+		expect(session.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+		expect(session.annotations).toEqual([]);
+		expect(session.mode).toBe('single');
+		expect(session.beatsPerLine).toBe(4);
+		expect(session.rowHeight).toBe(96);
+		expect(session.rectsPerBeatMode).toBe('auto');
+		expect(session.tags).toEqual([]);
+		expect(session.savedLoops).toEqual([]);
+		expect(session.layers).toEqual([createDefaultLayer()]);
+	});
+
+	it('estimates duration from the last beat', () => {
+		const { session } = migrateSession({
+			id: 'beats',
+			beats: [
+				{ index: 0, time: 0.5 },
+				{ index: 1, time: 1 }
+			]
+		});
+
+		expect(session.duration).toBe(1);
+	});
+
+	it('keeps existing values when filling defaults', () => {
+		const { session } = migrateSession({
+			id: 'stems',
+			mode: 'stem',
+			beatsPerLine: 8,
+			annotations: [{ id: 'a', startTimeMs: 0, endTimeMs: 100, label: 'Intro', color: '#fff' }]
+		});
+
+		expect(session.mode).toBe('stem');
+		expect(session.beatsPerLine).toBe(8);
+		expect(session.annotations).toHaveLength(1);
+	});
+
+	it('moves existing annotations into the default layer', () => {
+		const { session } = migrateSession({
+			id: 'layers',
+			schemaVersion: 3,
+			annotations: [{ id: 'a', startTimeMs: 0, endTimeMs: 100, label: 'Intro', color: '#fff' }]
+		});
+
+		expect(session.layers).toEqual([createDefaultLayer()]);
+		expect(session.annotations[0].layerId).toBe(DEFAULT_LAYER_ID);
+	});
+
+	it('turns inline cover art into an image for the blob store', () => {
+		const { session } = migrateSession({
+			id: 'cover',
+			schemaVersion: 4,
+			metadata: { title: 'Intro', coverArt: 'data:image/png;base64,aGk=' }
+		});
+
+		expect(session.metadata?.title).toBe('Intro');
+		expect(session.metadata?.coverArt).toBeInstanceOf(Blob);
+		expect(session.metadata?.coverArt?.type).toBe('image/png');
+	});
+
+	describe('rows on the beat grid', () => {
+		// 120 BPM, 4 beats per row: rows are 2 s long
+		function sessionWithOffset(beatOffset: number) {
+			return {
+				id: 'rows',
+				schemaVersion: 5,
+				bpm: 120,
+				beatsPerLine: 4,
+				beatOffset,
+				beats: generateBeats(120, beatOffset, 10),
+				workingState: { loopingChunks: [0], loopMarkers: [] },
+				savedLoops: [
+					{
+						id: 'loop',
+						loopingChunks: [1],
+						loopMarkers: [{ chunkIndex: 1, markerA: 0.5, markerB: 1 }]
+					}
+				]
+			};
+		}
+		const layout = (beatOffset: number) => ({
+			beatOffset,
+			chunkDuration: 2,
+			beatsPerChunk: 4,
+			beats: generateBeats(120, beatOffset, 10)
+		});
+
+		// Chunk start in the offset-based layout this migration moves away from
+		const oldChunkStart = (chunkIndex: number, beatOffset: number) =>
+			beatOffset > 0
+				? 2 - beatOffset / 1000 + chunkIndex * 2
+				: chunkIndex * 2 + Math.abs(beatOffset) / 1000;
+
+		it('pins where chunks started before and where they start now', () => {
+			expect(oldChunkStart(0, 500)).toBeCloseTo(1.5);
+			expect(oldChunkStart(1, 500)).toBeCloseTo(3.5);
+			expect(getChunkStartTime(0, layout(500))).toBeCloseTo(0.5);
+			expect(getChunkStartTime(1, layout(500))).toBeCloseTo(2.5);
+
+			expect(oldChunkStart(0, -500)).toBeCloseTo(0.5);
+			expect(oldChunkStart(1, -500)).toBeCloseTo(2.5);
+			expect(getChunkStartTime(0, layout(-500))).toBeCloseTo(1.5);
+			expect(getChunkStartTime(1, layout(-500))).toBeCloseTo(3.5);
+		});
+
+		it('moves chunk selections of a positive offset to the same audio', () => {
+			const { session } = migrateSession(sessionWithOffset(500));
+
+			// Old chunk 0 was 1.5-3.5 s
+			expect(session.workingState?.loopingChunks).toEqual([0, 1]);
+			expect(session.workingState?.loopMarkers).toEqual([
+				{ chunkIndex: 0, markerA: 0.5, markerB: 1 },
+				{ chunkIndex: 1, markerA: 0, markerB: 0.5 }
+			]);
+			// Old chunk 1 narrowed to its second half was 4.5-5.5 s
+			expect(session.savedLoops?.[0].loopingChunks).toEqual([2]);
+			expect(session.savedLoops?.[0].loopMarkers).toEqual([
+				{ chunkIndex: 2, markerA: 0, markerB: 0.5 }
+			]);
+		});
+
+		it('moves chunk selections of a negative offset to the same audio', () => {
+			const { session } = migrateSession(sessionWithOffset(-500));
+
+			// Old chunk 0 was 0.5-2.5 s: the end of the pre-song chunk and most of chunk 0
+			expect(session.workingState?.loopingChunks).toEqual([-1, 0]);
+			expect(session.workingState?.loopMarkers).toEqual([
+				{ chunkIndex: -1, markerA: expect.closeTo(1 / 3), markerB: 1 },
+				{ chunkIndex: 0, markerA: 0, markerB: 0.5 }
+			]);
+		});
+
+		it('leaves sessions on a tempo map alone', () => {
+			const stored = { ...sessionWithOffset(500), tempoMap: [{ startBeat: 8, bpm: 140 }] };
+			const { session } = migrateSession(stored);
+
+			expect(session.workingState).toEqual(stored.workingState);
+		});
+	});
+
+	it('leaves current sessions untouched', () => {
+		const stored = { id: 'current', schemaVersion: CURRENT_SCHEMA_VERSION, annotations: [] };
+		const { session, migrated } = migrateSession(stored);
+
+		expect(migrated).toBe(false);
+		expect(session).toEqual(stored);
+	});
+
+	it('does not downgrade sessions from a newer schema', () => {
+		const stored = { id: 'future', schemaVersion: CURRENT_SCHEMA_VERSION + 1 };
+		const { session, migrated } = migrateSession(stored);
+
+		expect(migrated).toBe(false);
+		expect(session.schemaVersion).toBe(CURRENT_SCHEMA_VERSION + 1);
+	});
+});
@@ -0,0 +1,182 @@
+/**
+ * TrackSession schema migrations
+ * Every stored session carries a schemaVersion. Sessions written before versioning
+ * existed count as version 0. Migrations run in order, each lifting a session by
+ * exactly one version, so old data is upgraded once and then persisted.
+ */
+
+import type { Beat, LoopMarker, TrackSession } from '../types';
+import { createDefaultLayer, DEFAULT_LAYER_ID } from '../utils/annotationLayers';
+import { remapChunkSelection } from '../utils/loopMarkers';
+import { getChunkIndexAtTime, getChunkStartTime, type ChunkLayout } from '../utils/svgWaveform';
+import { dataUrlToBlob } from '../utils/trackMetadata';
+
+// A session as read from storage, before any assumption about its version's fields
+type StoredRecord = Record<string, unknown>;
+
+interface Migration {
+	version: number; // Version the session has after this migration runs
+	description: string;
+	migrate: (session: StoredRecord) => StoredRecord;
+}
+
+function arrayOrEmpty<T>(value: unknown): T[] {
+	return Array.isArray(value) ? value : [];
+}
+
+/**
+ * Waveform rows used to be shifted by -beatOffset: chunk 0 started at (chunk length - offset)
+ * for a positive offset and at |offset| for a negative one. They now start on the beat grid,
+ * at +offset. Chunk selections (working state and saved loops) move to the chunks covering
+ * the same audio. Sessions with a tempo map or beat anchors were already laid out on the grid.
+ */
+function moveSelectionsToBeatRows(session: StoredRecord): StoredRecord {
+	const { beatOffset, bpm, beatsPerLine } = session;
+	if (
+		typeof beatOffset !== 'number' ||
+		beatOffset === 0 ||
+		typeof bpm !== 'number' ||
+		!(bpm > 0) ||
+		typeof beatsPerLine !== 'number' ||
+		!(beatsPerLine > 0) ||
+		arrayOrEmpty(session.tempoMap).length > 0 ||
+		arrayOrEmpty(session.beatAnchors).length > 0
+	) {
+		return session;
+	}
+
+	const chunkDuration = beatsPerLine * (60 / bpm);
+	const layout: ChunkLayout = {
+		beatOffset,
+		chunkDuration,
+		beatsPerChunk: beatsPerLine,
+		beats: arrayOrEmpty<Beat>(session.beats)
+	};
+	const oldChunkStart = (chunkIndex: number) =>
+		(chunkIndex + (beatOffset > 0 ? 1 : 0)) * chunkDuration - beatOffset / 1000;
+	const newChunkStart = (chunkIndex: number) => getChunkStartTime(chunkIndex, layout);
+	// Only the audible part of the pre-song chunk counts, as when the selection was made
+	const span = (chunkStart: (chunkIndex: number) => number) => (chunkIndex: number) => ({
+		startTime: Math.max(0, chunkStart(chunkIndex)),
+		endTime: chunkStart(chunkIndex + 1)
+	});
+
+	const remap = (selection: StoredRecord) =>
+		remapChunkSelection(
+			{
+				loopingChunks: arrayOrEmpty<number>(selection.loopingChunks),
+				loopMarkers: arrayOrEmpty<LoopMarker>(selection.loopMarkers)
+			},
+			span(oldChunkStart),
+			span(newChunkStart),
+			(time) => getChunkIndexAtTime(time, layout)
+		);
+
+	const workingState = session.workingState as StoredRecord | undefined;
+	return {
+		...session,
+		...(workingState ? { workingState: { ...workingState, ...remap(workingState) } } : {}),
+		savedLoops: arrayOrEmpty<StoredRecord>(session.savedLoops).map((loop) => ({
+			...loop,
+			...remap(loop)
+		}))
+	};
+}
+
+const migrations: Migration[] = [
+	{
+		version: 1,
+		description: 'Fill in defaults for fields added before versioning existed',
+		migrate: (session) => ({
+			...session,
+			annotations: arrayOrEmpty(session.annotations),
+			beats: arrayOrEmpty(session.beats),
+			manualBpm: session.manualBpm ?? false,
+			beatsPerLine: session.beatsPerLine ?? 4,
+			targetBPM: session.targetBPM ?? 0,
+			rectsPerBeatMode: session.rectsPerBeatMode ?? 'auto',
+			mode: session.mode ?? 'single',
+			rowHeight: session.rowHeight ?? 96
+		})
+	},
+	{
+		version: 2,
+		description: 'Library organisation: tags, and a duration estimate for sorting',
+		migrate: (session) => {
+			const beats = arrayOrEmpty<Beat>(session.beats);
+			return {
+				...session,
+				tags: arrayOrEmpty(session.tags),
+				duration: session.duration ?? (beats.length > 0 ? beats[beats.length - 1].time : undefined)
+			};
+		}
+	},
+	{
+		version: 3,
+		description: 'Named loop library',
+		migrate: (session) => ({
+			...session,
+			savedLoops: arrayOrEmpty(session.savedLoops)
+		})
+	},
+	{
+		version: 4,
+		description: 'Annotation layers: existing annotations move into a default layer',
+		migrate: (session) => ({
+			...session,
+			layers: arrayOrEmpty(session.layers).length > 0 ? session.layers : [createDefaultLayer()],
+			annotations: arrayOrEmpty<StoredRecord>(session.annotations).map((annotation) => ({
+				...annotation,
+				layerId: annotation.layerId ?? DEFAULT_LAYER_ID
+			}))
+		})
+	},
+	{
+		version: 5,
+		description: 'Cover art leaves the record: inline data URLs become images for the blob store',
+		migrate: (session) => {
+			const metadata = session.metadata as StoredRecord | undefined;
+			if (typeof metadata?.coverArt !== 'string') {
+				return session;
+			}
+			const { coverArt, ...rest } = metadata;
+			const image = dataUrlToBlob(coverArt);
+			return { ...session, metadata: image ? { ...rest, coverArt: image } : rest };
+		}
+	},
+	{
+		version: 6,
+		description: 'Waveform rows start on the beat grid: chunk selections follow their audio',
+		migrate: moveSelectionsToBeatRows
+	}
+];
+
+export const CURRENT_SCHEMA_VERSION = migrations[migrations.length - 1].version;
+
+/**
+ * Upgrade a stored session to the current schema version
+ * @returns the upgraded session and whether anything changed (so callers can persist it)
+ */
+export function migrateSession(stored: unknown): { session: TrackSession; migrated: boolean } {
+	let session: StoredRecord = { ...(stored as StoredRecord) };
+	const startVersion = typeof session.schemaVersion === 'number' ? session.schemaVersion : 0;
+
+	if (startVersion > CURRENT_SCHEMA_VERSION) {
+		console.warn(
+			`Session ${session.id} uses schema version ${startVersion}, newer than supported ${CURRENT_SCHEMA_VERSION}`
+		);
+		return { session: session as unknown as TrackSession, migrated: false };
+	}
+
+	for (const migration of migrations) {
+		if (migration.version > startVersion) {
+			session = migration.migrate(session);
+			session.schemaVersion = migration.version;
+		}
+	}
+
+	return {
+		session: session as unknown as TrackSession,
+		migrated: startVersion !== CURRENT_SCHEMA_VERSION
+	};
+}
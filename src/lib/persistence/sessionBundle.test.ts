@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'vitest';
+import { createSessionBundle, parseSessionBundle, validateTrackSession } from './sessionBundle';
+import { CURRENT_SCHEMA_VERSION } from './migrations';
+import { readZip } from '../utils/zipArchive';
+import type { TrackSession, WorkingState } from '../types';
+
+function makeSession(overrides: Partial<TrackSession> = {}): TrackSession {
+	return {
+		id: 'session-1',
+		schemaVersion: CURRENT_SCHEMA_VERSION,
+		mp3Blob: new Uint8Array([1, 2, 3]).buffer,
+		filename: 'song.mp3',
+		created: '2026-01-01T00:00:00.000Z',
+		bpm: 120,
+		beatOffset: 25,
+		manualBpm: true,
+		beatsPerLine: 8,
+		beats: [{ index: 0, time: 0.025 }],
+		annotations: [
+			{ id: 'a1', startTimeMs: 1000, endTimeMs: 2000, label: 'green 1', color: '#00ff00' }
+		],
+		targetBPM: 110,
+		mode: 'single',
+		rowHeight: 120,
+		...overrides
+	};
+}
+
+describe('session bundles', () => {
+	it('round-trips a single-track session including audio', async () => {
+		const session = makeSession();
+		const restored = await parseSessionBundle(await createSessionBundle(session));
+		const { mp3Blob, ...metadata } = restored;
+		const { mp3Blob: _original, ...expectedMetadata } = session;
+		expect(metadata).toEqual(expectedMetadata);
+		expect(Array.from(new Uint8Array(mp3Blob!))).toEqual([1, 2, 3]);
+	});
+
+	it('round-trips stems and their download blobs', async () => {
+		const session = makeSession({
+			mp3Blob: undefined,
+			mode: 'stem',
+			stems: [
+				{
+					id: 's1',
+					filename: 'Vocals.mp3',
+					mp3Blob: new Uint8Array([4]).buffer,
+					enabled: true,
+					downloadBlob: new Blob([new Uint8Array([7, 8])], { type: 'audio/mpeg' })
+				},
+				{ id: 's2', filename: 'Bass.mp3', mp3Blob: new Uint8Array([5]).buffer, enabled: false }
+			]
+		});
+		const restored = await parseSessionBundle(await createSessionBundle(session));
+		expect(restored.stems?.map((s) => s.filename)).toEqual(['Vocals.mp3', 'Bass.mp3']);
+		expect(restored.stems?.[1].enabled).toBe(false);
+		const download = restored.stems?.[0].downloadBlob;
+		expect(download?.type).toBe('audio/mpeg');
+		expect(Array.from(new Uint8Array(await download!.arrayBuffer()))).toEqual([7, 8]);
+	});
+
+	it('carries the cover image as a file instead of its blob store hash', async () => {
+		const session = makeSession({
+			metadata: {
+				title: 'Song',
+				coverArtHash: 'cover-hash',
+				coverArt: new Blob([new Uint8Array([9, 9])], { type: 'image/png' })
+			}
+		});
+		const bundle = await createSessionBundle(session);
+		const manifest = JSON.parse(
+			new TextDecoder().decode(readZip(await bundle.arrayBuffer())[0].data)
+		);
+		expect(manifest.session.metadata).toEqual({ title: 'Song' });
+
+		const restored = await parseSessionBundle(bundle);
+		expect(restored.metadata?.title).toBe('Song');
+		expect(restored.metadata?.coverArtHash).toBeUndefined();
+		expect(restored.metadata?.coverArt?.type).toBe('image/png');
+		expect(Array.from(new Uint8Array(await restored.metadata!.coverArt!.arrayBuffer()))).toEqual([
+			9, 9
+		]);
+	});
+
+	it('leaves out fields that only mean something on the exporting device', async () => {
+		const session = makeSession({
+			audioHash: 'abc',
+			sourceSessionId: 'session-0',
+			workingState: {
+				loopingChunks: [2],
+				loopMarkers: [],
+				hiddenAnnotationGroups: [],
+				annotationCounters: {},
+				autoFollow: true,
+				showBeatNumbers: false,
+				playheadTime: 12
+			}
+		});
+		const bundle = new Uint8Array(await (await createSessionBundle(session)).arrayBuffer());
+		const manifest = JSON.parse(new TextDecoder().decode(readZip(bundle)[0].data));
+		expect(manifest.session).not.toHaveProperty('audioHash');
+		expect(manifest.session).not.toHaveProperty('sourceSessionId');
+		expect(manifest.session).not.toHaveProperty('workingState');
+
+		const restored = await parseSessionBundle(bundle.buffer);
+		expect(restored.workingState).toBeUndefined();
+	});
+
+	it('rejects bundles whose audio was damaged', async () => {
+		const bundle = new Uint8Array(await (await createSessionBundle(makeSession())).arrayBuffer());
+		// Stored entries: a 30-byte local header and the name precede each file's data
+		const [manifest, audio] = readZip(bundle);
+		const audioStart = 30 + manifest.name.length + manifest.data.length + 30 + audio.name.length;
+		bundle[audioStart] ^= 0xff;
+		await expect(parseSessionBundle(bundle.buffer)).rejects.toThrow('checksum mismatch');
+	});
+
+	it('rejects sessions with malformed annotations', () => {
+		const session = makeSession({
+			annotations: [{ id: 'a1', startTimeMs: 500, endTimeMs: 100, label: 'x', color: '#fff' }]
+		});
+		expect(() => validateTrackSession(session)).toThrow('ends before it starts');
+	});
+
+	it('rejects single-track sessions without audio', () => {
+		expect(() => validateTrackSession(makeSession({ mp3Blob: undefined }))).toThrow(
+			'Session has no audio'
+		);
+	});
+
+	it.each([
+		['layers', { layers: [{ id: 'l1', name: 'Chords' }] }, 'Invalid layer at position 0'],
+		['tempo map', { tempoMap: [{ startBeat: 8, bpm: 0 }] }, 'Invalid tempo change'],
+		['tempo map', { tempoMap: { startBeat: 8, bpm: 90 } }, 'tempo map must be an array'],
+		['beat anchors', { beatAnchors: [{ beatIndex: 2, time: '1.5' }] }, 'Invalid beat anchor'],
+		[
+			'saved loops',
+			{ savedLoops: [{ id: 'loop-1', name: 'Verse', created: '2026-01-01', segments: [] }] },
+			'Invalid saved loop at position 0'
+		]
+	])('rejects bundles with malformed %s', async (_field, overrides, message) => {
+		const bundle = await createSessionBundle(makeSession(overrides as Partial<TrackSession>));
+		await expect(parseSessionBundle(bundle)).rejects.toThrow(message);
+	});
+
+	it('rejects sessions with a malformed working state', () => {
+		const workingState = { loopingChunks: [1], loopMarkers: [] } as unknown as WorkingState;
+		expect(() => validateTrackSession(makeSession({ workingState }))).toThrow(
+			'invalid working state'
+		);
+	});
+});
@@ -0,0 +1,372 @@
+/**
+ * Portable session bundles (.mnerd)
+ * A bundle is a ZIP archive holding a JSON manifest with the session metadata
+ * plus every audio payload (main track, stems and stem download copies) and the cover
+ * image as separate files.
+ */
+
+import { createZip, readZip, type ZipEntry } from '../utils/zipArchive';
+import type {
+	TrackSession,
+	Stem,
+	Annotation,
+	Beat,
+	AnnotationLayer,
+	TempoSection,
+	BeatAnchor,
+	LoopMarker,
+	SavedLoop,
+	WorkingState
+} from '../types';
+import { migrateSession } from './migrations';
+
+export const BUNDLE_EXTENSION = '.mnerd';
+export const BUNDLE_FORMAT = 'music-nerd-session';
+export const BUNDLE_VERSION = 1;
+
+const MANIFEST_FILENAME = 'manifest.json';
+
+// Fields that only mean something in the browser storage they were saved in:
+// blob store keys, the practice state of this device and the session it was copied from
+type DeviceLocalField = 'audioHash' | 'workingState' | 'sourceSessionId';
+
+interface BundledStem
+	extends Omit<Stem, 'mp3Blob' | 'downloadBlob' | 'audioHash' | 'downloadHash'> {
+	audioFile: string;
+	downloadFile?: string;
+	downloadType?: string;
+}
+
+interface BundleManifest {
+	format: typeof BUNDLE_FORMAT;
+	version: number;
+	exportedAt: string;
+	session: Omit<TrackSession, 'mp3Blob' | 'stems' | DeviceLocalField> & {
+		audioFile?: string;
+		coverArtFile?: string;
+		coverArtType?: string;
+		stems?: BundledStem[];
+	};
+}
+
+/**
+ * Replace characters that are awkward inside archive paths
+ */
+function safeName(name: string): string {
+	return name.replace(/[\\/:*?"<>|]+/g, '_');
+}
+
+/**
+ * Serialize a full session (including audio) into a .mnerd bundle
+ */
+export async function createSessionBundle(session: TrackSession): Promise<Blob> {
+	const entries: ZipEntry[] = [];
+	const { mp3Blob, stems, audioHash, workingState, sourceSessionId, ...metadata } = session;
+	const manifest: BundleManifest = {
+		format: BUNDLE_FORMAT,
+		version: BUNDLE_VERSION,
+		exportedAt: new Date().toISOString(),
+		session: { ...metadata }
+	};
+
+	if (metadata.metadata) {
+		const { coverArt, coverArtHash, ...trackMetadata } = metadata.metadata;
+		manifest.session.metadata = trackMetadata;
+		if (coverArt) {
+			manifest.session.coverArtFile = 'cover-art';
+			manifest.session.coverArtType = coverArt.type;
+			entries.push({
+				name: manifest.session.coverArtFile,
+				data: new Uint8Array(await coverArt.arrayBuffer())
+			});
+		}
+	}
+
+	if (mp3Blob) {
+		const audioFile = `audio/${safeName(session.filename)}`;
+		entries.push({ name: audioFile, data: new Uint8Array(mp3Blob) });
+		manifest.session.audioFile = audioFile;
+	}
+
+	if (stems) {
+		manifest.session.stems = await Promise.all(
+			stems.map(async (stem, index) => {
+				const {
+					mp3Blob: stemAudio,
+					downloadBlob,
+					audioHash: stemHash,
+					downloadHash,
+					...stemMetadata
+				} = stem;
+				if (!stemAudio) {
+					throw new Error(`Stem "${stem.filename}" has no audio`);
+				}
+				const audioFile = `stems/${index}-${safeName(stem.filename)}`;
+				entries.push({ name: audioFile, data: new Uint8Array(stemAudio) });
+
+				const bundled: BundledStem = { ...stemMetadata, audioFile };
+				if (downloadBlob) {
+					bundled.downloadFile = `stems/${index}-download-${safeName(stem.filename)}`;
+					bundled.downloadType = downloadBlob.type;
+					entries.push({
+						name: bundled.downloadFile,
+						data: new Uint8Array(await downloadBlob.arrayBuffer())
+					});
+				}
+				return bundled;
+			})
+		);
+	}
+
+	entries.unshift({
+		name: MANIFEST_FILENAME,
+		data: new TextEncoder().encode(JSON.stringify(manifest))
+	});
+
+	return new Blob([createZip(entries)], { type: 'application/zip' });
+}
+
+/**
+ * Read a .mnerd bundle back into a session, validating the payload
+ */
+export async function parseSessionBundle(bundle: Blob | ArrayBuffer): Promise<TrackSession> {
+	const buffer = bundle instanceof ArrayBuffer ? bundle : await bundle.arrayBuffer();
+	const files = new Map(readZip(buffer).map((entry) => [entry.name, entry.data]));
+
+	const manifestData = files.get(MANIFEST_FILENAME);
+	if (!manifestData) {
+		throw new Error('Bundle is missing its manifest');
+	}
+
+	let manifest: BundleManifest;
+	try {
+		manifest = JSON.parse(new TextDecoder().decode(manifestData));
+	} catch {
+		throw new Error('Bundle manifest is not valid JSON');
+	}
+
+	if (manifest?.format !== BUNDLE_FORMAT) {
+		throw new Error('File is not a Music Nerd session bundle');
+	}
+	if (typeof manifest.version !== 'number' || manifest.version > BUNDLE_VERSION) {
+		throw new Error(`Unsupported bundle version: ${manifest.version}`);
+	}
+
+	const readFile = (path: string | undefined): ArrayBuffer => {
+		const data = path ? files.get(path) : undefined;
+		if (!data) {
+			throw new Error(`Bundle is missing file "${path}"`);
+		}
+		return data.slice().buffer as ArrayBuffer;
+	};
+
+	const { audioFile, coverArtFile, coverArtType, stems, ...metadata } =
+		manifest.session ?? ({} as BundleManifest['session']);
+	const session: TrackSession = { ...metadata } as TrackSession;
+	// Bundles exported by earlier versions still carry them
+	delete session.audioHash;
+	delete session.workingState;
+	delete session.sourceSessionId;
+
+	if (audioFile) {
+		session.mp3Blob = readFile(audioFile);
+	}
+
+	if (session.metadata) {
+		const { coverArtHash, ...trackMetadata } = session.metadata;
+		session.metadata = trackMetadata;
+		if (coverArtFile) {
+			session.metadata.coverArt = new Blob([readFile(coverArtFile)], {
+				type: coverArtType || 'image/jpeg'
+			});
+		}
+	}
+
+	if (Array.isArray(stems)) {
+		session.stems = stems.map((bundled) => {
+			const { audioFile: stemFile, downloadFile, downloadType, ...stemMetadata } = bundled;
+			const stem: Stem = { ...stemMetadata, mp3Blob: readFile(stemFile) };
+			delete stem.audioHash;
+			delete stem.downloadHash;
+			if (downloadFile) {
+				stem.downloadBlob = new Blob([readFile(downloadFile)], {
+					type: downloadType || 'audio/mpeg'
+				});
+			}
+			return stem;
+		});
+	}
+
+	// Bundles written by older versions carry older schemas
+	const { session: upgraded } = migrateSession(session);
+	validateTrackSession(upgraded);
+	return upgraded;
+}
+
+function isFiniteNumber(value: unknown): value is number {
+	return typeof value === 'number' && Number.isFinite(value);
+}
+
+function validateBeat(beat: Beat, index: number): void {
+	if (!isFiniteNumber(beat?.index) || !isFiniteNumber(beat?.time)) {
+		throw new Error(`Invalid beat at position ${index}`);
+	}
+}
+
+function validateAnnotation(annotation: Annotation, index: number): void {
+	if (
+		typeof annotation?.id !== 'string' ||
+		!isFiniteNumber(annotation.startTimeMs) ||
+		!isFiniteNumber(annotation.endTimeMs) ||
+		typeof annotation.label !== 'string' ||
+		typeof annotation.color !== 'string'
+	) {
+		throw new Error(`Invalid annotation at position ${index}`);
+	}
+	if (annotation.endTimeMs < annotation.startTimeMs) {
+		throw new Error(`Annotation "${annotation.label}" ends before it starts`);
+	}
+}
+
+function isStringArray(value: unknown): value is string[] {
+	return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+function isChunkList(value: unknown): value is number[] {
+	return Array.isArray(value) && value.every(Number.isInteger);
+}
+
+function validateOptionalArray<T>(
+	value: T[] | undefined,
+	name: string,
+	validate: (item: T, index: number) => void
+): void {
+	if (value === undefined) return;
+	if (!Array.isArray(value)) {
+		throw new Error(`Session ${name} must be an array`);
+	}
+	value.forEach(validate);
+}
+
+function validateLayer(layer: AnnotationLayer, index: number): void {
+	if (
+		typeof layer?.id !== 'string' ||
+		typeof layer.name !== 'string' ||
+		typeof layer.visible !== 'boolean' ||
+		typeof layer.locked !== 'boolean'
+	) {
+		throw new Error(`Invalid layer at position ${index}`);
+	}
+}
+
+function validateTempoSection(section: TempoSection, index: number): void {
+	if (!isFiniteNumber(section?.startBeat) || !isFiniteNumber(section.bpm) || section.bpm <= 0) {
+		throw new Error(`Invalid tempo change at position ${index}`);
+	}
+}
+
+function validateBeatAnchor(anchor: BeatAnchor, index: number): void {
+	if (!isFiniteNumber(anchor?.beatIndex) || anchor.beatIndex < 0 || !isFiniteNumber(anchor.time)) {
+		throw new Error(`Invalid beat anchor at position ${index}`);
+	}
+}
+
+function isLoopMarkerList(value: unknown): value is LoopMarker[] {
+	return (
+		Array.isArray(value) &&
+		value.every(
+			(marker: LoopMarker) =>
+				Number.isInteger(marker?.chunkIndex) &&
+				isFiniteNumber(marker.markerA) &&
+				isFiniteNumber(marker.markerB)
+		)
+	);
+}
+
+function validateSavedLoop(loop: SavedLoop, index: number): void {
+	if (
+		typeof loop?.id !== 'string' ||
+		typeof loop.name !== 'string' ||
+		typeof loop.created !== 'string' ||
+		!Array.isArray(loop.segments) ||
+		!loop.segments.every(
+			(segment) => isFiniteNumber(segment?.start) && isFiniteNumber(segment.end)
+		) ||
+		!isChunkList(loop.loopingChunks) ||
+		!isLoopMarkerList(loop.loopMarkers)
+	) {
+		throw new Error(`Invalid saved loop at position ${index}`);
+	}
+}
+
+function validateWorkingState(state: WorkingState): void {
+	const counters = state?.annotationCounters;
+	if (
+		!isChunkList(state?.loopingChunks) ||
+		!isLoopMarkerList(state.loopMarkers) ||
+		!isStringArray(state.hiddenAnnotationGroups) ||
+		!counters ||
+		typeof counters !== 'object' ||
+		!Object.values(counters).every(isFiniteNumber) ||
+		typeof state.autoFollow !== 'boolean' ||
+		typeof state.showBeatNumbers !== 'boolean' ||
+		!isFiniteNumber(state.playheadTime)
+	) {
+		throw new Error('Session has an invalid working state');
+	}
+}
+
+/**
+ * Validate that an untrusted value is a complete, loadable TrackSession
+ */
+export function validateTrackSession(value: unknown): asserts value is TrackSession {
+	const session = value as TrackSession;
+	if (!session || typeof session !== 'object') {
+		throw new Error('Session payload is empty');
+	}
+	if (typeof session.id !== 'string' || session.id.length === 0) {
+		throw new Error('Session is missing an id');
+	}
+	if (typeof session.filename !== 'string') {
+		throw new Error('Session is missing a filename');
+	}
+	if (typeof session.created !== 'string' || Number.isNaN(Date.parse(session.created))) {
+		throw new Error('Session has an invalid creation date');
+	}
+	for (const field of ['bpm', 'beatOffset', 'beatsPerLine', 'targetBPM'] as const) {
+		if (!isFiniteNumber(session[field])) {
+			throw new Error(`Session field "${field}" must be a number`);
+		}
+	}
+	if (!Array.isArray(session.beats)) {
+		throw new Error('Session beats must be an array');
+	}
+	session.beats.forEach(validateBeat);
+	if (!Array.isArray(session.annotations)) {
+		throw new Error('Session annotations must be an array');
+	}
+	session.annotations.forEach(validateAnnotation);
+	validateOptionalArray(session.layers, 'layers', validateLayer);
+	validateOptionalArray(session.tempoMap, 'tempo map', validateTempoSection);
+	validateOptionalArray(session.beatAnchors, 'beat anchors', validateBeatAnchor);
+	validateOptionalArray(session.savedLoops, 'saved loops', validateSavedLoop);
+	if (session.workingState !== undefined) {
+		validateWorkingState(session.workingState);
+	}
+
+	if (session.mode === 'stem') {
+		if (!Array.isArray(session.stems) || session.stems.length < 2) {
+			throw new Error('Stem sessions require at least 2 stems');
+		}
+		for (const stem of session.stems) {
+			if (typeof stem.id !== 'string' || typeof stem.filename !== 'string') {
+				throw new Error('Stem is missing its id or filename');
+			}
+			if (!(stem.mp3Blob instanceof ArrayBuffer)) {
+				throw new Error(`Stem "${stem.filename}" has no audio`);
+			}
+		}
+	} else if (!(session.mp3Blob instanceof ArrayBuffer)) {
+		throw new Error('Session has no audio');
+	}
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { SessionSync } from './sessionSync';
+
+// Delivers messages to every other channel with the same name, asynchronously like the real one
+class FakeBroadcastChannel {
+	static channels: FakeBroadcastChannel[] = [];
+	onmessage: ((event: MessageEvent) => void) | null = null;
+
+	constructor(readonly name: string) {
+		FakeBroadcastChannel.channels.push(this);
+	}
+
+	postMessage(data: unknown) {
+		for (const channel of FakeBroadcastChannel.channels) {
+			if (channel !== this && channel.name === this.name) {
+				queueMicrotask(() => channel.onmessage?.({ data } as MessageEvent));
+			}
+		}
+	}
+}
+
+const flush = () => new Promise((done) => setTimeout(done, 0));
+
+describe('SessionSync', () => {
+	beforeEach(() => {
+		FakeBroadcastChannel.channels = [];
+		vi.stubGlobal('BroadcastChannel', FakeBroadcastChannel);
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it('tells other tabs about saves and deletes, but not itself', async () => {
+		const tabA = new SessionSync();
+		const tabB = new SessionSync();
+		const savedInA = vi.fn();
+		const savedInB = vi.fn();
+		const deletedInB = vi.fn();
+		tabA.onSessionSaved(savedInA);
+		tabB.onSessionSaved(savedInB);
+		tabB.onSessionDeleted(deletedInB);
+
+		tabA.notifySaved('song-1');
+		tabA.notifyDeleted('song-2');
+		await flush();
+
+		expect(savedInB).toHaveBeenCalledWith('song-1');
+		expect(deletedInB).toHaveBeenCalledWith('song-2');
+		expect(savedInA).not.toHaveBeenCalled();
+	});
+
+	it('tracks which sessions other tabs have open', async () => {
+		const tabA = new SessionSync();
+		const tabB = new SessionSync();
+		const presenceChanged = vi.fn();
+		tabB.onPresenceChange(presenceChanged);
+
+		tabA.setOpenSession('song-1');
+		await flush();
+		expect(tabB.isOpenElsewhere('song-1')).toBe(true);
+		expect(presenceChanged).toHaveBeenCalled();
+
+		tabA.setOpenSession(null);
+		await flush();
+		expect(tabB.isOpenElsewhere('song-1')).toBe(false);
+	});
+
+	it('learns about tabs that were open before it', async () => {
+		const existing = new SessionSync();
+		existing.onPresenceChange(() => {});
+		existing.setOpenSession('song-1');
+		await flush();
+
+		const opened = new SessionSync();
+		opened.setOpenSession(null);
+		await flush();
+
+		expect(opened.isOpenElsewhere('song-1')).toBe(true);
+	});
+});
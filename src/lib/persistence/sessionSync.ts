@@ -0,0 +1,136 @@
+/**
+ * Cross-tab session notifications
+ * Tabs tell each other over a BroadcastChannel when they save or delete a session,
+ * and which session they have open, so a tab can refresh stale data and warn when
+ * the same session is being edited elsewhere.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+
+const CHANNEL_NAME = 'music-nerd-sessions';
+
+type SyncMessage =
+	| { type: 'session-saved'; tabId: string; sessionId: string }
+	| { type: 'session-deleted'; tabId: string; sessionId: string }
+	| { type: 'presence'; tabId: string; sessionId: string | null; isReply?: boolean };
+
+type SessionListener = (sessionId: string) => void;
+type PresenceListener = () => void;
+
+export class SessionSync {
+	readonly tabId = uuidv4();
+
+	private channel: BroadcastChannel | null = null;
+	private openSessionId: string | null = null;
+	private otherTabs = new Map<string, string>(); // tabId -> open session ID
+	private savedListeners = new Set<SessionListener>();
+	private deletedListeners = new Set<SessionListener>();
+	private presenceListeners = new Set<PresenceListener>();
+
+	/**
+	 * Lazily open the channel; a no-op where BroadcastChannel is unavailable
+	 */
+	private getChannel(): BroadcastChannel | null {
+		if (!this.channel && typeof BroadcastChannel !== 'undefined') {
+			this.channel = new BroadcastChannel(CHANNEL_NAME);
+			this.channel.onmessage = (event: MessageEvent<SyncMessage>) => this.handleMessage(event.data);
+
+			if (typeof window !== 'undefined') {
+				// Tell other tabs we are gone when this one closes
+				window.addEventListener('pagehide', () =>
+					this.post({ type: 'presence', tabId: this.tabId, sessionId: null })
+				);
+			}
+		}
+		return this.channel;
+	}
+
+	private post(message: SyncMessage): void {
+		this.getChannel()?.postMessage(message);
+	}
+
+	private handleMessage(message: SyncMessage): void {
+		if (message.tabId === this.tabId) return;
+
+		switch (message.type) {
+			case 'session-saved':
+				this.savedListeners.forEach((listener) => listener(message.sessionId));
+				break;
+			case 'session-deleted':
+				this.deletedListeners.forEach((listener) => listener(message.sessionId));
+				break;
+			case 'presence':
+				if (message.sessionId) {
+					this.otherTabs.set(message.tabId, message.sessionId);
+				} else {
+					this.otherTabs.delete(message.tabId);
+				}
+				// Answer announcements so a newly opened tab learns about existing ones
+				if (!message.isReply) {
+					this.post({
+						type: 'presence',
+						tabId: this.tabId,
+						sessionId: this.openSessionId,
+						isReply: true
+					});
+				}
+				this.presenceListeners.forEach((listener) => listener());
+				break;
+		}
+	}
+
+	/**
+	 * Announce a save so other tabs showing the session can refresh
+	 */
+	notifySaved(sessionId: string): void {
+		this.post({ type: 'session-saved', tabId: this.tabId, sessionId });
+	}
+
+	notifyDeleted(sessionId: string): void {
+		this.post({ type: 'session-deleted', tabId: this.tabId, sessionId });
+	}
+
+	/**
+	 * Announce which session this tab has open (null when back on the song list)
+	 */
+	setOpenSession(sessionId: string | null): void {
+		this.openSessionId = sessionId;
+		this.post({ type: 'presence', tabId: this.tabId, sessionId });
+	}
+
+	/**
+	 * Whether another tab currently has the session open
+	 */
+	isOpenElsewhere(sessionId: string): boolean {
+		for (const openSessionId of this.otherTabs.values()) {
+			if (openSessionId === sessionId) return true;
+		}
+		return false;
+	}
+
+	/**
+	 * Subscribe to saves made by other tabs. Returns an unsubscribe function.
+	 */
+	onSessionSaved(listener: SessionListener): () => void {
+		this.getChannel();
+		this.savedListeners.add(listener);
+		return () => this.savedListeners.delete(listener);
+	}
+
+	onSessionDeleted(listener: SessionListener): () => void {
+		this.getChannel();
+		this.deletedListeners.add(listener);
+		return () => this.deletedListeners.delete(listener);
+	}
+
+	/**
+	 * Subscribe to changes in which sessions other tabs have open
+	 */
+	onPresenceChange(listener: PresenceListener): () => void {
+		this.getChannel();
+		this.presenceListeners.add(listener);
+		return () => this.presenceListeners.delete(listener);
+	}
+}
+
+export const sessionSync = new SessionSync();
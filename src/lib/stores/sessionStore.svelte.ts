@@ -1,7 +1,31 @@
-import type { TrackSession, Annotation } from '$lib/types';
+import type { TrackSession, Annotation, AnnotationLayer, WorkingState, SavedLoop, TempoSection, BeatAnchor } from '$lib/types';
 import type { AudioEngine } from '$lib/audio/AudioEngine';
 import type { PersistenceService } from '$lib/persistence/PersistenceService';
 import { getColorName, getGroupKey, parseAnnotationGroup } from '$lib/utils/colorNames';
+import { createHistory, pushEntry, undoEntry, redoEntry, type HistoryState } from '$lib/utils/history';
+import { generateBeats, getBeatIndexAtTime } from '$lib/utils/beatGrid';
+import { moveById } from '$lib/utils/ordering';
+import { applyAnnotationEdit, touchesLockedLayer } from '$lib/utils/annotationEdits';
+import { getLayers, resolveLayerId } from '$lib/utils/annotationLayers';
+
+// Session fields that undo/redo can restore
+const HISTORY_FIELDS = [
+  'bpm',
+  'manualBpm',
+  'targetBPM',
+  'beatOffset',
+  'tempoMap',
+  'beatAnchors',
+  'beatsPerLine',
+  'annotations'
+] as const satisfies (keyof TrackSession)[];
+type SessionEdit = Partial<Pick<TrackSession, (typeof HISTORY_FIELDS)[number]>>;
+
+const HISTORY_STORAGE_PREFIX = 'history-';
+// Repeated edits of the same kind within this window collapse into one undo step
+const HISTORY_MERGE_WINDOW_MS = 1000;
+// Working state changes with the playhead, so saves are throttled to this interval
+const WORKING_STATE_SAVE_INTERVAL_MS = 1000;
 
 export class SessionStore {
   // Core session data
@@ -22,6 +46,7 @@ export class SessionStore {
   rowHeight = $state(96);
   autoFollow = $state(false);
   showBeatNumbers = $state(false);
+  isBeatEditMode = $state(false); // Dragging a beat line in the waveform pins it to the audio
 
   // Annotation state
   isAnnotationMode = $state(false);
@@ -32,6 +57,11 @@ export class SessionStore {
   annotationCounter = $state(1); // Legacy, kept for compatibility
   annotationCounters = $state<Record<string, number>>({}); // Per-color counters: { green: 3, red: 1 }
   hiddenAnnotationGroups = $state<Set<string>>(new Set()); // Group keys that are hidden
+  activeLayerId = $state<string | null>(null); // Layer new annotations are added to
+
+  // Undo/redo history for the current session
+  history = $state<HistoryState<SessionEdit>>(createHistory());
+  private historySessionId: string | null = null;
 
   // UI state
   isDetectingBpm = $state(false);
@@ -39,6 +69,8 @@ export class SessionStore {
 
   // Debounce timers
   private rowHeightDebounceTimer: ReturnType<typeof setTimeout> | null = null;
+  private workingStateTimer: ReturnType<typeof setTimeout> | null = null;
+  private pendingWorkingState: { sessionId: string; state: WorkingState } | null = null;
 
   // Service references (set by main page)
   private audioEngine: AudioEngine | null = null;
@@ -52,6 +84,11 @@ export class SessionStore {
 
   // BPM Management
   async updateBPM(value: number, isManual: boolean = false) {
+    const before: SessionEdit = {
+      bpm: this.bpm,
+      manualBpm: this.currentSession?.manualBpm ?? false,
+      targetBPM: this.targetBPM
+    };
     this.bpm = value;
 
     // Update target BPM to match if not manually set
@@ -72,6 +109,14 @@ export class SessionStore {
           isManual
         );
         this.currentSession = updatedSession;
+        if (before.bpm !== value || before.manualBpm !== isManual) {
+          this.recordEdit(
+            'Change BPM',
+            before,
+            { bpm: value, manualBpm: isManual, targetBPM: this.targetBPM },
+            HISTORY_MERGE_WINDOW_MS
+          );
+        }
       } catch (error) {
         console.error('Failed to update BPM:', error);
       }
@@ -111,6 +156,7 @@ export class SessionStore {
 
   // Beat Offset Management
   async updateBeatOffset(value: number) {
+    const before: SessionEdit = { beatOffset: this.beatOffset };
     this.beatOffset = value;
 
     if (this.currentSession && this.persistenceService) {
@@ -121,23 +167,114 @@ export class SessionStore {
           this.duration
         );
         this.currentSession = updatedSession;
+        if (before.beatOffset !== updatedSession.beatOffset) {
+          this.recordEdit(
+            'Change beat offset',
+            before,
+            { beatOffset: updatedSession.beatOffset },
+            HISTORY_MERGE_WINDOW_MS
+          );
+        }
       } catch (error) {
         console.error('Failed to update offset:', error);
       }
     }
   }
 
+  /**
+   * Replace the beat grid with one imported from another app, as one undoable edit.
+   * The tempo counts as manually set, like a BPM typed in by the user.
+   * @param tempoMap - The imported grid's tempo changes; an empty list makes the tempo constant
+   */
+  async importBeatGrid(bpm: number, beatOffset: number, tempoMap: TempoSection[] = []) {
+    if (!this.currentSession || !this.persistenceService) return;
+
+    const before: SessionEdit = {
+      bpm: this.bpm,
+      manualBpm: this.currentSession.manualBpm,
+      beatOffset: this.beatOffset,
+      tempoMap: $state.snapshot(this.currentSession.tempoMap ?? [])
+    };
+    const after: SessionEdit = { bpm, manualBpm: true, beatOffset: Math.round(beatOffset), tempoMap };
+    await this.applyEdit(after, before);
+    this.recordEdit('Import beat grid', before, after);
+  }
+
+  /**
+   * Replace the tempo changes after the first beat (an empty list means constant tempo)
+   */
+  async updateTempoMap(tempoMap: TempoSection[]) {
+    if (!this.currentSession || !this.persistenceService) return;
+
+    try {
+      const before: SessionEdit = { tempoMap: $state.snapshot(this.currentSession.tempoMap ?? []) };
+      const updatedSession = await this.persistenceService.updateTempoMap(
+        this.currentSession.id,
+        tempoMap,
+        this.duration
+      );
+      this.currentSession = updatedSession;
+      this.recordEdit('Change tempo map', before, { tempoMap: updatedSession.tempoMap ?? [] });
+    } catch (error) {
+      console.error('Failed to update tempo map:', error);
+    }
+  }
+
+  /**
+   * Replace the beats pinned to the audio (an empty list leaves the grid unwarped)
+   */
+  async updateBeatAnchors(beatAnchors: BeatAnchor[], label = 'Change beat anchors') {
+    if (!this.currentSession || !this.persistenceService) return;
+
+    try {
+      const before: SessionEdit = { beatAnchors: $state.snapshot(this.currentSession.beatAnchors ?? []) };
+      const updatedSession = await this.persistenceService.updateBeatAnchors(
+        this.currentSession.id,
+        beatAnchors,
+        this.duration
+      );
+      this.currentSession = updatedSession;
+      this.recordEdit(label, before, { beatAnchors: updatedSession.beatAnchors ?? [] });
+    } catch (error) {
+      console.error('Failed to update beat anchors:', error);
+    }
+  }
+
+  /**
+   * Pin a beat of the grid to a time in seconds
+   */
+  async setBeatAnchor(beatIndex: number, time: number) {
+    const others = (this.currentSession?.beatAnchors ?? []).filter((anchor) => anchor.beatIndex !== beatIndex);
+    await this.updateBeatAnchors([...others, { beatIndex, time }], 'Pin beat');
+  }
+
+  async removeBeatAnchor(beatIndex: number) {
+    const anchors = this.currentSession?.beatAnchors ?? [];
+    await this.updateBeatAnchors(
+      anchors.filter((anchor) => anchor.beatIndex !== beatIndex),
+      'Unpin beat'
+    );
+  }
+
+  toggleBeatEditMode() {
+    this.isBeatEditMode = !this.isBeatEditMode;
+  }
+
   // Beats Per Line Management
   async updateBeatsPerLine(value: number) {
     if (!this.currentSession || !this.persistenceService) return;
 
     try {
+      const before: SessionEdit = { beatsPerLine: this.beatsPerLine };
       const updatedSession = await this.persistenceService.updateBeatsPerLine(
         this.currentSession.id,
         value
       );
       this.currentSession = updatedSession;
       this.beatsPerLine = value;
+      if (before.beatsPerLine !== value) {
+        this.recordEdit('Change beats per line', before, { beatsPerLine: value });
+      }
     } catch (error) {
       console.error('Failed to update beats per line:', error);
     }
@@ -243,13 +380,16 @@ export class SessionStore {
   }
 
   /**
-   * Get visible annotations (filtered by hiddenAnnotationGroups)
+   * Get visible annotations (filtered by hidden layers and hiddenAnnotationGroups)
    */
   get visibleAnnotations(): Annotation[] {
     if (!this.currentSession?.annotations) return [];
-    if (this.hiddenAnnotationGroups.size === 0) return this.currentSession.annotations;
+    const layers = this.layers;
+    const hiddenLayerIds = new Set(layers.filter((layer) => !layer.visible).map((layer) => layer.id));
+    if (this.hiddenAnnotationGroups.size === 0 && hiddenLayerIds.size === 0) return this.currentSession.annotations;
 
     return this.currentSession.annotations.filter((annotation) => {
+      if (hiddenLayerIds.has(resolveLayerId(annotation, layers))) return false;
       const groupKey = getGroupKey(annotation.label);
       return !this.hiddenAnnotationGroups.has(groupKey);
     });
@@ -261,8 +401,15 @@ export class SessionStore {
   async clearAllAnnotations() {
     if (!this.currentSession || !this.persistenceService) return;
     try {
+      const before = this.snapshotAnnotations(this.currentSession.annotations);
       const updatedSession = await this.persistenceService.clearAllAnnotations(this.currentSession.id);
       this.currentSession = updatedSession;
+      // Annotations on locked layers survive the clear
+      this.recordEdit(
+        'Clear annotations',
+        { annotations: before },
+        { annotations: this.snapshotAnnotations(updatedSession.annotations) }
+      );
       this.resetAnnotationCounter();
       this.resetAnnotationCounters();
       this.hiddenAnnotationGroups = new Set();
@@ -277,12 +424,18 @@ export class SessionStore {
   async updateGroupColor(groupKey: string, newColor: string) {
     if (!this.currentSession || !this.persistenceService) return;
     try {
+      const before = this.snapshotAnnotations(this.currentSession.annotations);
       const updatedSession = await this.persistenceService.updateAnnotationsBulk(
         this.currentSession.id,
         (annotation) => getGroupKey(annotation.label) === groupKey,
         { color: newColor }
       );
       this.currentSession = updatedSession;
+      this.recordEdit(
+        'Change group color',
+        { annotations: before },
+        { annotations: this.snapshotAnnotations(updatedSession.annotations) }
+      );
     } catch (error) {
       console.error('Failed to update group color:', error);
     }
@@ -295,41 +448,433 @@ export class SessionStore {
   async renameGroup(groupKey: string, newBaseName: string) {
     if (!this.currentSession || !this.persistenceService) return;
     try {
-      // We need to update each annotation individually to preserve its number
-      const annotations = this.currentSession.annotations || [];
-      const matchingAnnotations = annotations.filter(
-        (a) => getGroupKey(a.label) === groupKey
+      const before = this.snapshotAnnotations(this.currentSession.annotations);
+
+      // One atomic write; each annotation keeps its own number suffix
+      const session = await this.persistenceService.updateAnnotationsBulk(
+        this.currentSession.id,
+        (annotation) => getGroupKey(annotation.label) === groupKey,
+        (annotation) => {
+          const { number } = parseAnnotationGroup(annotation.label);
+          return { label: number !== null ? `${newBaseName} ${number}` : newBaseName };
+        }
+      );
+      this.currentSession = session;
+      this.recordEdit(
+        'Rename group',
+        { annotations: before },
+        { annotations: this.snapshotAnnotations(session.annotations) }
       );
+    } catch (error) {
+      console.error('Failed to rename group:', error);
+    }
+  }
 
-      for (const annotation of matchingAnnotations) {
-        const { number } = parseAnnotationGroup(annotation.label);
-        const newLabel = number !== null ? `${newBaseName} ${number}` : newBaseName;
-        await this.persistenceService.updateAnnotation(
-          this.currentSession.id,
-          annotation.id,
-          { label: newLabel }
-        );
+  /**
+   * Add an annotation to the current session
+   * Errors propagate so callers can roll back optimistic UI updates
+   */
+  async addAnnotation(
+    startTimeMs: number,
+    endTimeMs: number,
+    label: string,
+    color: string,
+    isPoint?: boolean
+  ): Promise<TrackSession | null> {
+    if (!this.currentSession || !this.persistenceService) return null;
+
+    const { annotationId, session } = await this.persistenceService.addAnnotation(
+      this.currentSession.id,
+      startTimeMs,
+      endTimeMs,
+      label,
+      color,
+      isPoint,
+      this.activeLayer?.id
+    );
+    this.currentSession = session;
+
+    // Derive the "before" list from the saved result, since the UI may already
+    // show an optimistic placeholder for this annotation
+    const after = this.snapshotAnnotations(session.annotations);
+    this.recordEdit(
+      'Add annotation',
+      { annotations: after.filter((a) => a.id !== annotationId) },
+      { annotations: after }
+    );
+    return session;
+  }
+
+  /**
+   * Add imported annotations to the current session, as one undoable edit. Annotations
+   * without one of the session's layers go to the active layer.
+   * @param replace - Replace the existing annotations instead of merging with them
+   */
+  async importAnnotations(annotations: Omit<Annotation, 'id'>[], replace = false): Promise<TrackSession | null> {
+    if (!this.currentSession || !this.persistenceService) return null;
+
+    const before = this.snapshotAnnotations(this.currentSession.annotations);
+    const session = await this.persistenceService.addAnnotations(
+      this.currentSession.id,
+      annotations,
+      this.activeLayer?.id,
+      replace
+    );
+    this.currentSession = session;
+    this.recordEdit(
+      'Import annotations',
+      { annotations: before },
+      { annotations: this.snapshotAnnotations(session.annotations) }
+    );
+    return session;
+  }
+
+  /**
+   * Update a single annotation in the current session
+   */
+  async updateAnnotation(id: string, updates: Partial<Omit<Annotation, 'id'>>): Promise<TrackSession | null> {
+    if (!this.currentSession || !this.persistenceService) return null;
+
+    const before = this.snapshotAnnotations(this.currentSession.annotations);
+    const session = await this.persistenceService.updateAnnotation(this.currentSession.id, id, updates);
+    this.currentSession = session;
+    this.recordEdit(
+      'Edit annotation',
+      { annotations: before },
+      { annotations: this.snapshotAnnotations(session.annotations) }
+    );
+    return session;
+  }
+
+  /**
+   * Remove a single annotation from the current session
+   */
+  async removeAnnotation(id: string): Promise<TrackSession | null> {
+    if (!this.currentSession || !this.persistenceService) return null;
+
+    const before = this.snapshotAnnotations(this.currentSession.annotations);
+    const session = await this.persistenceService.removeAnnotation(this.currentSession.id, id);
+    this.currentSession = session;
+    this.recordEdit(
+      'Delete annotation',
+      { annotations: before },
+      { annotations: this.snapshotAnnotations(session.annotations) }
+    );
+    return session;
+  }
+
+  // Annotation Layers
+  get layers(): AnnotationLayer[] {
+    return this.currentSession ? getLayers(this.currentSession) : [];
+  }
+
+  /**
+   * Layer new annotations go to, defaulting to the first layer
+   */
+  get activeLayer(): AnnotationLayer | null {
+    const layers = this.layers;
+    return layers.find((layer) => layer.id === this.activeLayerId) ?? layers[0] ?? null;
+  }
+
+  setActiveLayer(layerId: string) {
+    this.activeLayerId = layerId;
+  }
+
+  /**
+   * Add a layer and make it the active one
+   */
+  async addLayer(name: string) {
+    if (!this.currentSession || !this.persistenceService) return;
+    const { layerId, session } = await this.persistenceService.addLayer(this.currentSession.id, name);
+    this.currentSession = session;
+    this.activeLayerId = layerId;
+  }
+
+  async updateLayer(layerId: string, updates: Partial<Omit<AnnotationLayer, 'id'>>) {
+    if (!this.currentSession || !this.persistenceService) return;
+    this.currentSession = await this.persistenceService.updateLayer(this.currentSession.id, layerId, updates);
+  }
+
+  /**
+   * Move a layer up (-1) or down (+1), which also moves its lane
+   */
+  async moveLayer(layerId: string, offset: number) {
+    if (!this.currentSession || !this.persistenceService) return;
+    const layerIds = moveById(this.layers, layerId, offset);
+    this.currentSession = await this.persistenceService.reorderLayers(this.currentSession.id, layerIds);
+  }
+
+  /**
+   * Delete a layer together with its annotations
+   */
+  async deleteLayer(layerId: string) {
+    if (!this.currentSession || !this.persistenceService) return;
+    this.currentSession = await this.persistenceService.removeLayer(this.currentSession.id, layerId);
+  }
+
+  // Saved Loops
+  get savedLoops(): SavedLoop[] {
+    return this.currentSession?.savedLoops ?? [];
+  }
+
+  /**
+   * Save a loop to the current session's library
+   * @returns The new loop's ID
+   */
+  async saveLoop(
+    name: string,
+    loop: Pick<SavedLoop, 'segments' | 'loopingChunks' | 'loopMarkers'>
+  ): Promise<string | null> {
+    if (!this.currentSession || !this.persistenceService) return null;
+
+    const { loopId, session } = await this.persistenceService.addSavedLoop(this.currentSession.id, name, loop);
+    this.currentSession = session;
+    return loopId;
+  }
+
+  async renameLoop(loopId: string, name: string) {
+    if (!this.currentSession || !this.persistenceService) return;
+    this.currentSession = await this.persistenceService.renameSavedLoop(this.currentSession.id, loopId, name);
+  }
+
+  /**
+   * Move a saved loop up (-1) or down (+1) in the library
+   */
+  async moveLoop(loopId: string, offset: number) {
+    if (!this.currentSession || !this.persistenceService) return;
+    const loopIds = moveById(this.savedLoops, loopId, offset);
+    this.currentSession = await this.persistenceService.reorderSavedLoops(this.currentSession.id, loopIds);
+  }
+
+  async deleteLoop(loopId: string) {
+    if (!this.currentSession || !this.persistenceService) return;
+    this.currentSession = await this.persistenceService.removeSavedLoop(this.currentSession.id, loopId);
+  }
+
+  // Undo/Redo
+  get canUndo() {
+    return this.history.past.length > 0;
+  }
+
+  get canRedo() {
+    return this.history.future.length > 0;
+  }
+
+  /**
+   * Revert the most recent edit
+   */
+  async undo() {
+    const result = undoEntry(this.history);
+    if (!result) return;
+
+    try {
+      await this.applyEdit(result.entry.before, result.entry.after);
+      this.history = result.state;
+      this.saveHistory();
+    } catch (error) {
+      console.error(`Failed to undo "${result.entry.label}":`, error);
+    }
+  }
+
+  /**
+   * Re-apply the most recently undone edit
+   */
+  async redo() {
+    const result = redoEntry(this.history);
+    if (!result) return;
+
+    try {
+      await this.applyEdit(result.entry.after, result.entry.before);
+      this.history = result.state;
+      this.saveHistory();
+    } catch (error) {
+      console.error(`Failed to redo "${result.entry.label}":`, error);
+    }
+  }
+
+  private recordEdit(label: string, before: SessionEdit, after: SessionEdit, mergeWithinMs = 0) {
+    this.history = pushEntry(this.history, { label, before, after, timestamp: Date.now() }, mergeWithinMs);
+    this.saveHistory();
+  }
+
+  /**
+   * Write a history snapshot back to the session and sync local state
+   * @param edit - Snapshot to restore
+   * @param replaced - The entry's other snapshot; annotations only change where the two differ
+   */
+  private async applyEdit(edit: SessionEdit, replaced: SessionEdit) {
+    if (!this.currentSession || !this.persistenceService) return;
+
+    const duration = this.duration;
+    // Restore every field of the snapshot in one write
+    const session = await this.persistenceService.patchSession(this.currentSession.id, (session) => {
+      if (edit.beatOffset !== undefined) session.beatOffset = edit.beatOffset;
+      if (edit.bpm !== undefined) session.bpm = edit.bpm;
+      if (edit.manualBpm !== undefined) session.manualBpm = edit.manualBpm;
+      if (edit.beatsPerLine !== undefined) session.beatsPerLine = edit.beatsPerLine;
+      if (edit.tempoMap !== undefined) {
+        session.tempoMap = edit.tempoMap.length > 0 ? edit.tempoMap.map((section) => ({ ...section })) : undefined;
+      }
+      if (edit.beatAnchors !== undefined) {
+        session.beatAnchors = edit.beatAnchors.length > 0 ? edit.beatAnchors.map((anchor) => ({ ...anchor })) : undefined;
+      }
+      if (edit.annotations !== undefined) {
+        const from = replaced.annotations ?? [];
+        // Undo and redo respect layer locks like any other annotation edit
+        if (touchesLockedLayer(session.annotations, from, edit.annotations, getLayers(session))) {
+          throw new Error('Layer is locked');
+        }
+        session.annotations = applyAnnotationEdit(session.annotations, from, edit.annotations);
+      }
+      if (
+        edit.bpm !== undefined ||
+        edit.beatOffset !== undefined ||
+        edit.tempoMap !== undefined ||
+        edit.beatAnchors !== undefined
+      ) {
+        session.beats = generateBeats(session.bpm, session.beatOffset, duration, session.tempoMap, session.beatAnchors);
       }
+    });
+
+    this.currentSession = session;
+    this.bpm = session.bpm;
+    this.beatOffset = session.beatOffset;
+    this.sliderBeatOffset = session.beatOffset;
+    this.beatsPerLine = session.beatsPerLine;
+
+    if (edit.targetBPM !== undefined) {
+      this.updateTargetBPM(edit.targetBPM);
+    } else {
+      this.updatePlaybackSpeed();
+    }
+  }
 
-      // Reload the session to get all updates
-      const session = await this.persistenceService.loadSession(this.currentSession.id);
-      if (session) {
-        this.currentSession = session;
+  private snapshotAnnotations(annotations: Annotation[]): Annotation[] {
+    return $state.snapshot(annotations) as Annotation[];
+  }
+
+  /**
+   * History lives in sessionStorage so it survives a reload but not the browser session
+   */
+  private loadHistory(sessionId: string) {
+    this.historySessionId = sessionId;
+    this.history = createHistory();
+
+    if (typeof sessionStorage === 'undefined') return;
+    const saved = sessionStorage.getItem(`${HISTORY_STORAGE_PREFIX}${sessionId}`);
+    if (saved) {
+      try {
+        this.history = JSON.parse(saved);
+      } catch (e) {
+        console.error('Failed to parse saved history:', e);
       }
+    }
+  }
+
+  private saveHistory() {
+    if (!this.historySessionId || typeof sessionStorage === 'undefined') return;
+    try {
+      sessionStorage.setItem(
+        `${HISTORY_STORAGE_PREFIX}${this.historySessionId}`,
+        JSON.stringify($state.snapshot(this.history))
+      );
     } catch (error) {
-      console.error('Failed to rename group:', error);
+      // Quota exceeded: history still works for this page, it just will not survive a reload
+      console.warn('Failed to persist undo history:', error);
     }
   }
 
+  /**
+   * Take in a newer copy of the open session saved by another tab, syncing local
+   * state and playback speed. The undo history is dropped when the other tab changed
+   * anything it covers, since restoring its snapshots would overwrite those changes.
+   */
+  applySessionSavedElsewhere(session: TrackSession) {
+    const previous = this.currentSession ? $state.snapshot(this.currentSession) : null;
+    if (previous && HISTORY_FIELDS.some((field) => JSON.stringify(previous[field]) !== JSON.stringify(session[field]))) {
+      this.history = createHistory();
+      this.saveHistory();
+    }
+
+    this.setCurrentSession(session);
+    this.bpm = session.bpm;
+    this.beatOffset = Math.round(session.beatOffset);
+    this.sliderBeatOffset = Math.round(session.beatOffset);
+    this.targetBPM = session.targetBPM > 0 ? session.targetBPM : session.bpm;
+    this.updatePlaybackSpeed();
+  }
+
   // Session Management
   setCurrentSession(session: TrackSession | null) {
     this.currentSession = session;
+    if (session && session.id !== this.historySessionId) {
+      this.loadHistory(session.id);
+      this.applyWorkingState(session.workingState);
+      this.activeLayerId = null;
+    }
     if (session) {
       this.beatsPerLine = session.beatsPerLine || 8;
       this.rowHeight = session.rowHeight ?? 96;
     }
   }
 
+  // Working State
+  /**
+   * Restore the working state the store owns; loops and the playhead are restored by the page
+   */
+  private applyWorkingState(state: WorkingState | undefined) {
+    this.hiddenAnnotationGroups = new Set(state?.hiddenAnnotationGroups ?? []);
+    this.annotationCounters = { ...state?.annotationCounters };
+    // Display toggles carry over from the previous session when nothing was saved
+    this.autoFollow = state?.autoFollow ?? this.autoFollow;
+    this.showBeatNumbers = state?.showBeatNumbers ?? this.showBeatNumbers;
+  }
+
+  /**
+   * Queue the current working state for saving. The latest state is written at
+   * most once per interval, so calling this on every playhead update is cheap.
+   * @param loops - Loop selection, which is owned by the page
+   */
+  saveWorkingState(loops: Pick<WorkingState, 'loopingChunks' | 'loopMarkers'>) {
+    if (!this.currentSession) return;
+
+    this.pendingWorkingState = {
+      sessionId: this.currentSession.id,
+      state: {
+        ...loops,
+        hiddenAnnotationGroups: Array.from(this.hiddenAnnotationGroups),
+        annotationCounters: { ...this.annotationCounters },
+        autoFollow: this.autoFollow,
+        showBeatNumbers: this.showBeatNumbers,
+        playheadTime: this.currentTime
+      }
+    };
+
+    if (!this.workingStateTimer) {
+      this.workingStateTimer = setTimeout(() => this.flushWorkingState(), WORKING_STATE_SAVE_INTERVAL_MS);
+    }
+  }
+
+  /**
+   * Write any queued working state now (e.g. before leaving the session)
+   */
+  async flushWorkingState() {
+    if (this.workingStateTimer) {
+      clearTimeout(this.workingStateTimer);
+      this.workingStateTimer = null;
+    }
+
+    const pending = this.pendingWorkingState;
+    this.pendingWorkingState = null;
+    if (!pending || !this.persistenceService) return;
+
+    try {
+      await this.persistenceService.updateWorkingState(pending.sessionId, pending.state);
+    } catch (error) {
+      console.error('Failed to save working state:', error);
+    }
+  }
+
   // Playback Control
   setIsPlaying(value: boolean) {
     this.isPlaying = value;
@@ -379,13 +924,8 @@ export class SessionStore {
       return;
     }
 
-    // Find current beat based on time
-    const beatIndex = this.currentSession.beats.findIndex((beat, index) => {
-      const nextBeat = this.currentSession!.beats[index + 1];
-      return this.currentTime >= beat.time && (!nextBeat || this.currentTime < nextBeat.time);
-    });
-
-    this.currentBeatIndex = beatIndex;
+    // Find current beat based on time; beats follow tempo changes and pinned beats
+    this.currentBeatIndex = getBeatIndexAtTime(this.currentSession.beats, this.currentTime);
   }
 
   // Get computed values
@@ -7,6 +7,22 @@ export interface Beat {
 	time: number;
 }
 
+/**
+ * A tempo change: from startBeat on (counted from the first beat of the grid), beats last 60 / bpm seconds
+ */
+export interface TempoSection {
+	startBeat: number;
+	bpm: number;
+}
+
+/**
+ * A beat pinned to a time in the audio; the grid between two anchors is stretched to fit them
+ */
+export interface BeatAnchor {
+	beatIndex: number;
+	time: number; // Seconds, like Beat.time
+}
+
 
 export interface Annotation {
 	id: string;
@@ -16,33 +32,143 @@ export interface Annotation {
 	color: string;
 	isPoint?: boolean; // True for point annotations, false/undefined for duration annotations
 	rowIndex?: number; // For vertical stacking when annotations overlap
+	layerId?: string; // Layer the annotation belongs to (see TrackSession.layers)
+}
+
+/**
+ * A named set of annotations drawn in its own lane, e.g. "Instruments" or "Structure"
+ */
+export interface AnnotationLayer {
+	id: string;
+	name: string;
+	visible: boolean;
+	locked: boolean; // Locked layers reject edits to their annotations
 }
 
 export interface Stem {
 	id: string;
 	filename: string;
-	mp3Blob: ArrayBuffer;
+	mp3Blob?: ArrayBuffer; // Playback audio, attached when the session is loaded with its audio
+	audioHash?: string; // Key of mp3Blob in the audio blob store
 	enabled: boolean; // Whether this stem is currently playing
 	color?: string; // Optional color for visualization
 	downloadBlob?: Blob; // Optional blob for downloading (preserved from stem extraction)
+	downloadHash?: string; // Key of downloadBlob in the audio blob store
+}
+
+/**
+ * A chunk's narrowed loop range, as fractions (0-1) of the chunk
+ */
+export interface LoopMarker {
+	chunkIndex: number;
+	markerA: number;
+	markerB: number;
+}
+
+/**
+ * A stretch of audio played as part of a loop, in seconds
+ */
+export interface LoopSegment {
+	start: number;
+	end: number;
+}
+
+/**
+ * A loop the user saved under a name so it can be recalled later
+ */
+export interface SavedLoop {
+	id: string;
+	name: string;
+	segments: LoopSegment[]; // Exact audio played when the loop is recalled
+	loopingChunks: number[]; // Chunk selection the loop was made from, highlighted on recall
+	loopMarkers: LoopMarker[];
+	created: string; // ISO date string
+}
+
+/**
+ * Practice state of a session that is not part of the analysis itself,
+ * saved so a session reopens where it was left
+ */
+export interface WorkingState {
+	loopingChunks: number[]; // Chunk indices selected for looping
+	loopMarkers: LoopMarker[]; // Narrowed loop ranges
+	hiddenAnnotationGroups: string[]; // Group keys hidden in the waveform
+	annotationCounters: Record<string, number>; // Per-color counters for default annotation labels
+	autoFollow: boolean;
+	showBeatNumbers: boolean;
+	playheadTime: number; // Seconds
+}
+
+/**
+ * Tags read from the imported audio file
+ */
+export interface TrackMetadata {
+	title?: string;
+	artist?: string;
+	album?: string;
+	genre?: string;
+	bpm?: number; // Tempo from the file's tags, offered alongside the detected BPM
+	coverArt?: Blob; // Embedded cover image, attached on import until it is stored
+	coverArtHash?: string; // Key of the cover image in the blob store
 }
 
 export interface TrackSession {
 	id: string;
-	mp3Blob?: ArrayBuffer; // Optional for backward compatibility - required when mode === 'single', not used when mode === 'stem'
+	schemaVersion?: number; // Data model version, upgraded on load by persistence/migrations.ts
+	mp3Blob?: ArrayBuffer; // Attached when the session is loaded with its audio (mode === 'single'); not used when mode === 'stem'
+	audioHash?: string; // Key of mp3Blob in the audio blob store
 	filename: string;
+	sourceFilename?: string; // File the audio was extracted from, when it differs (e.g. a .vdjstems container)
+	metadata?: TrackMetadata; // Tags read from the audio file on import
 	created: string; // ISO date string
 	bpm: number;
 	beatOffset: number; // Offset in milliseconds
 	manualBpm: boolean; // Whether BPM was manually set
+	tempoMap?: TempoSection[]; // Tempo changes after the first beat, in beat order; bpm is the tempo before the first change
+	beatAnchors?: BeatAnchor[]; // Beats dragged onto audible hits, in beat order
 	beatsPerLine: number; // Number of beats per chunk/line in spectrogram
 	beats: Beat[];
 	annotations: Annotation[]; // Array of annotations with absolute timing
+	layers?: AnnotationLayer[]; // Annotation layers, in lane order (top to bottom)
 	targetBPM: number; // Target BPM for practice
 	rectsPerBeatMode?: 'auto' | number; // 'auto' for automatic selection between 8 and upper limit, or a number for manual value
 	mode?: 'single' | 'stem'; // Session mode - defaults to 'single' for backward compatibility
 	stems?: Stem[]; // Array of stems for stem mode sessions
 	rowHeight?: number; // Height of waveform rows in pixels (default: 96)
+	tags?: string[]; // User-defined library tags, normalized to lowercase
+	folder?: string; // Library folder/playlist the session is filed under
+	lastOpened?: string; // ISO date string of the last time the session was opened
+	duration?: number; // Audio duration in seconds, recorded when the audio is decoded
+	sourceSessionId?: string; // Session this one was duplicated from, sharing its audio
+	savedLoops?: SavedLoop[]; // Named loops, in the user's order
+	workingState?: WorkingState; // Loops, visibility and playhead, restored when the session is reopened
+	archivedAt?: string; // ISO date string of when the audio was removed to save space (annotations are kept)
+}
+
+/**
+ * Session metadata as listed in the library (no audio payloads)
+ */
+export type SessionSummary = Omit<TrackSession, 'mp3Blob' | 'stems'> & {
+	stemCount?: number;
+	stemsEnabled?: number;
+};
+
+/**
+ * Bytes a session occupies in IndexedDB, split by what they hold.
+ * Audio other sessions also use (identical content) only counts as shared, so totals
+ * add up across sessions and show what archiving or deleting the session frees.
+ */
+export interface SessionStorageUsage {
+	sessionId: string;
+	filename: string;
+	mode: 'single' | 'stem';
+	audioBytes: number; // Main track audio
+	stemBytes: number; // Playback audio of all stems
+	downloadBytes: number; // Original stem files preserved for download
+	sharedBytes: number; // Audio also used by other sessions, not part of totalBytes
+	metadataBytes: number; // Session record (annotations, beats and settings) and cover art
+	totalBytes: number;
+	archivedAt?: string;
 }
 
 export interface SpectrogramConfig {
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import {
+	applyAnnotationEdit,
+	getChangedAnnotationIds,
+	touchesLockedLayer
+} from './annotationEdits';
+import type { Annotation, AnnotationLayer } from '../types';
+
+function annotation(id: string, label: string, startTimeMs = 0): Annotation {
+	return { id, startTimeMs, endTimeMs: startTimeMs + 1000, label, color: '#fff' };
+}
+
+describe('getChangedAnnotationIds', () => {
+	it('finds added, removed and modified annotations', () => {
+		const before = [annotation('a', 'Verse'), annotation('b', 'Chorus'), annotation('c', 'Bridge')];
+		const after = [annotation('a', 'Verse'), annotation('b', 'Chorus 2'), annotation('d', 'Outro')];
+		expect(getChangedAnnotationIds(before, after)).toEqual(new Set(['b', 'c', 'd']));
+	});
+});
+
+describe('applyAnnotationEdit', () => {
+	it('undoes only what the edit changed, keeping later edits', () => {
+		const before = [annotation('a', 'Verse'), annotation('b', 'Chorus')];
+		const after = [annotation('a', 'Verse 1'), annotation('b', 'Chorus')];
+		// Since the edit: "b" was renamed and "c" added, e.g. in another tab
+		const current = [annotation('a', 'Verse 1'), annotation('b', 'Hook'), annotation('c', 'Solo')];
+
+		expect(applyAnnotationEdit(current, after, before)).toEqual([
+			annotation('a', 'Verse'),
+			annotation('b', 'Hook'),
+			annotation('c', 'Solo')
+		]);
+	});
+
+	it('brings back removed annotations and removes added ones', () => {
+		const before = [annotation('a', 'Verse')];
+		const after = [annotation('b', 'Chorus')];
+		const current = [annotation('b', 'Chorus'), annotation('c', 'Solo')];
+
+		expect(applyAnnotationEdit(current, after, before)).toEqual([
+			annotation('c', 'Solo'),
+			annotation('a', 'Verse')
+		]);
+		expect(applyAnnotationEdit([annotation('c', 'Solo')], before, after)).toEqual([
+			annotation('c', 'Solo'),
+			annotation('b', 'Chorus')
+		]);
+	});
+
+	it('does not bring back an edited annotation that was deleted since', () => {
+		const before = [annotation('a', 'Verse')];
+		const after = [annotation('a', 'Verse 1')];
+		expect(applyAnnotationEdit([], after, before)).toEqual([]);
+	});
+});
+
+describe('touchesLockedLayer', () => {
+	const layers: AnnotationLayer[] = [
+		{ id: 'open', name: 'Open', visible: true, locked: false },
+		{ id: 'locked', name: 'Locked', visible: true, locked: true }
+	];
+	const onLayer = (id: string, label: string, layerId: string): Annotation => ({
+		...annotation(id, label),
+		layerId
+	});
+
+	it('allows edits that only change unlocked layers', () => {
+		const before = [onLayer('a', 'Verse', 'open'), onLayer('b', 'Chorus', 'locked')];
+		const after = [onLayer('a', 'Verse 1', 'open'), onLayer('b', 'Chorus', 'locked')];
+		expect(touchesLockedLayer(after, after, before, layers)).toBe(false);
+	});
+
+	it('blocks re-adding, removing or changing annotations on a locked layer', () => {
+		const before = [onLayer('a', 'Verse', 'locked')];
+		expect(touchesLockedLayer([], [], before, layers)).toBe(true);
+		expect(touchesLockedLayer(before, before, [], layers)).toBe(true);
+	});
+
+	it('blocks moving an annotation into or out of a locked layer', () => {
+		const open = [onLayer('a', 'Verse', 'open')];
+		const locked = [onLayer('a', 'Verse', 'locked')];
+		expect(touchesLockedLayer(open, open, locked, layers)).toBe(true);
+		expect(touchesLockedLayer(locked, locked, open, layers)).toBe(true);
+	});
+});
@@ -0,0 +1,87 @@
+/**
+ * Undoing and redoing annotation edits
+ * History entries hold the annotations before and after an edit. Applying one only
+ * touches the annotations that edit changed, matched by id, so annotations edited
+ * since then (here or in another tab) keep their latest state.
+ */
+
+import { isAnnotationLocked } from './annotationLayers';
+import type { Annotation, AnnotationLayer } from '../types';
+
+function isSameAnnotation(a: Annotation | undefined, b: Annotation | undefined): boolean {
+	if (!a || !b) return a === b;
+	const keys = new Set([...Object.keys(a), ...Object.keys(b)]) as Set<keyof Annotation>;
+	return [...keys].every((key) => a[key] === b[key]);
+}
+
+/**
+ * IDs of the annotations that differ between two snapshots (added, removed or modified)
+ */
+export function getChangedAnnotationIds(from: Annotation[], to: Annotation[]): Set<string> {
+	const fromById = new Map(from.map((annotation) => [annotation.id, annotation]));
+	const toById = new Map(to.map((annotation) => [annotation.id, annotation]));
+	const changed = new Set<string>();
+	for (const id of new Set([...fromById.keys(), ...toById.keys()])) {
+		if (!isSameAnnotation(fromById.get(id), toById.get(id))) {
+			changed.add(id);
+		}
+	}
+	return changed;
+}
+
+/**
+ * Move the current annotations from one snapshot of an edit to the other
+ * @param current - Annotations as they are now
+ * @param from - The edit's snapshot being left (`after` when undoing)
+ * @param to - The edit's snapshot being restored (`before` when undoing)
+ */
+export function applyAnnotationEdit(
+	current: Annotation[],
+	from: Annotation[],
+	to: Annotation[]
+): Annotation[] {
+	const changed = getChangedAnnotationIds(from, to);
+	const toById = new Map(to.map((annotation) => [annotation.id, annotation]));
+
+	const result: Annotation[] = [];
+	for (const annotation of current) {
+		if (!changed.has(annotation.id)) {
+			result.push(annotation);
+			continue;
+		}
+		const restored = toById.get(annotation.id);
+		if (restored) {
+			result.push({ ...restored });
+		}
+	}
+
+	// Annotations the edit removed come back; ones it only modified stay deleted if they were deleted since
+	const fromIds = new Set(from.map((annotation) => annotation.id));
+	const currentIds = new Set(current.map((annotation) => annotation.id));
+	for (const annotation of to) {
+		if (
+			changed.has(annotation.id) &&
+			!fromIds.has(annotation.id) &&
+			!currentIds.has(annotation.id)
+		) {
+			result.push({ ...annotation });
+		}
+	}
+	return result;
+}
+
+/**
+ * Whether applying an edit would add, remove or change an annotation on a locked layer,
+ * either where the annotation is now or where the edit would put it
+ */
+export function touchesLockedLayer(
+	current: Annotation[],
+	from: Annotation[],
+	to: Annotation[],
+	layers: AnnotationLayer[]
+): boolean {
+	const changed = getChangedAnnotationIds(from, to);
+	return [...current, ...to].some(
+		(annotation) => changed.has(annotation.id) && isAnnotationLocked(annotation, layers)
+	);
+}
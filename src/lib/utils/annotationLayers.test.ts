@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import {
+	createDefaultLayer,
+	exportLayerJson,
+	getLayerLanes,
+	getLayers,
+	isAnnotationLocked,
+	resolveLayerId
+} from './annotationLayers';
+import type { Annotation, AnnotationLayer } from '../types';
+
+const layers: AnnotationLayer[] = [
+	{ id: 'inst', name: 'Instruments', visible: true, locked: false },
+	{ id: 'struct', name: 'Structure', visible: false, locked: true },
+	{ id: 'choreo', name: 'Choreo', visible: true, locked: false }
+];
+
+function annotation(id: string, startTimeMs: number, layerId?: string): Annotation {
+	return { id, startTimeMs, endTimeMs: startTimeMs + 1000, label: id, color: '#fff', layerId };
+}
+
+describe('getLayers', () => {
+	it('falls back to the default layer for sessions without layers', () => {
+		expect(getLayers({})).toEqual([createDefaultLayer()]);
+		expect(getLayers({ layers })).toBe(layers);
+	});
+});
+
+describe('resolveLayerId', () => {
+	it('keeps known layers and sends unknown ones to the first layer', () => {
+		expect(resolveLayerId({ layerId: 'choreo' }, layers)).toBe('choreo');
+		expect(resolveLayerId({ layerId: 'gone' }, layers)).toBe('inst');
+		expect(resolveLayerId({}, layers, 'choreo')).toBe('choreo');
+	});
+});
+
+describe('isAnnotationLocked', () => {
+	it('follows the lock of the annotation layer', () => {
+		expect(isAnnotationLocked({ layerId: 'struct' }, layers)).toBe(true);
+		expect(isAnnotationLocked({ layerId: 'inst' }, layers)).toBe(false);
+	});
+});
+
+describe('getLayerLanes', () => {
+	it('numbers visible layers in order, skipping hidden ones', () => {
+		expect(getLayerLanes(layers)).toEqual(
+			new Map([
+				['inst', 0],
+				['choreo', 1]
+			])
+		);
+	});
+});
+
+describe('exportLayerJson', () => {
+	it('exports only the layer annotations, sorted by time', () => {
+		const json = exportLayerJson(
+			layers[2],
+			[
+				annotation('b', 2000, 'choreo'),
+				annotation('x', 0, 'inst'),
+				annotation('a', 1000, 'choreo')
+			],
+			layers
+		);
+
+		const parsed = JSON.parse(json);
+		expect(parsed.layer).toBe('Choreo');
+		expect(parsed.annotations.map((a: Annotation) => a.label)).toEqual(['a', 'b']);
+	});
+});
@@ -0,0 +1,75 @@
+/**
+ * Helpers for named annotation layers
+ * Each annotation belongs to one layer. Visible layers are drawn in their own
+ * horizontal lane of every waveform row, in the user's layer order.
+ */
+
+import type { Annotation, AnnotationLayer } from '../types';
+
+// Layer that holds annotations created before layers existed
+export const DEFAULT_LAYER_ID = 'default';
+export const DEFAULT_LAYER_NAME = 'Annotations';
+
+export function createDefaultLayer(): AnnotationLayer {
+	return { id: DEFAULT_LAYER_ID, name: DEFAULT_LAYER_NAME, visible: true, locked: false };
+}
+
+/**
+ * A session's layers, falling back to the default layer for sessions without any
+ */
+export function getLayers(session: { layers?: AnnotationLayer[] }): AnnotationLayer[] {
+	return session.layers && session.layers.length > 0 ? session.layers : [createDefaultLayer()];
+}
+
+/**
+ * The layer an annotation belongs to. Annotations whose layer is unknown
+ * (unsaved placeholders, or a layer that no longer exists) fall into the fallback layer.
+ */
+export function resolveLayerId(
+	annotation: Pick<Annotation, 'layerId'>,
+	layers: AnnotationLayer[],
+	fallbackLayerId: string = layers[0]?.id ?? DEFAULT_LAYER_ID
+): string {
+	const layerId = annotation.layerId;
+	return layerId && layers.some((layer) => layer.id === layerId) ? layerId : fallbackLayerId;
+}
+
+/**
+ * Whether an annotation sits on a locked layer
+ */
+export function isAnnotationLocked(
+	annotation: Pick<Annotation, 'layerId'>,
+	layers: AnnotationLayer[]
+): boolean {
+	const layerId = resolveLayerId(annotation, layers);
+	return layers.some((layer) => layer.id === layerId && layer.locked);
+}
+
+/**
+ * Lane index of each visible layer, top to bottom in layer order
+ */
+export function getLayerLanes(layers: AnnotationLayer[]): Map<string, number> {
+	return new Map(layers.filter((layer) => layer.visible).map((layer, index) => [layer.id, index]));
+}
+
+/**
+ * Serialize one layer's annotations for download
+ */
+export function exportLayerJson(
+	layer: AnnotationLayer,
+	annotations: Annotation[],
+	layers: AnnotationLayer[]
+): string {
+	const layerAnnotations = annotations
+		.filter((annotation) => resolveLayerId(annotation, layers) === layer.id)
+		.sort((a, b) => a.startTimeMs - b.startTimeMs)
+		.map(({ startTimeMs, endTimeMs, label, color, isPoint }) => ({
+			startTimeMs,
+			endTimeMs,
+			label,
+			color,
+			...(isPoint ? { isPoint } : {})
+		}));
+
+	return JSON.stringify({ layer: layer.name, annotations: layerAnnotations }, null, 2);
+}
@@ -0,0 +1,165 @@
+import { describe, it, expect } from 'vitest';
+import {
+	buildAnnotationExport,
+	formatAnnotationsCsv,
+	formatAnnotationsJson,
+	getMusicalPosition,
+	parseAnnotationsCsv,
+	parseAnnotationsJson,
+	parseCsv
+} from './annotationTransfer';
+import type { Annotation, AnnotationLayer } from '../types';
+
+const layers: AnnotationLayer[] = [
+	{ id: 'inst', name: 'Instruments', visible: true, locked: false },
+	{ id: 'moves', name: 'Moves', visible: true, locked: false }
+];
+
+// 120 BPM: one beat every 500ms, first beat at 1000ms
+const session = {
+	filename: 'song.mp3',
+	bpm: 120,
+	beatOffset: 1000,
+	annotations: [
+		{
+			id: 'b',
+			startTimeMs: 5000,
+			endTimeMs: 5000,
+			label: 'Turn, "fast"',
+			color: '#ff0000',
+			isPoint: true,
+			layerId: 'moves'
+		},
+		{ id: 'a', startTimeMs: 1000, endTimeMs: 3250, label: 'Intro', color: '#00ff00' }
+	] as Annotation[]
+};
+
+describe('getMusicalPosition', () => {
+	it('counts bars, beats and 8-counts from the first beat', () => {
+		expect(getMusicalPosition(1000, 120, 1000)).toEqual({
+			bar: 1,
+			beat: 1,
+			eightCount: 1,
+			count: 1
+		});
+		expect(getMusicalPosition(3250, 120, 1000)).toEqual({
+			bar: 2,
+			beat: 1.5,
+			eightCount: 1,
+			count: 5.5
+		});
+		expect(getMusicalPosition(5000, 120, 1000)).toEqual({
+			bar: 3,
+			beat: 1,
+			eightCount: 2,
+			count: 1
+		});
+	});
+
+	it('numbers times before the first beat from zero downwards', () => {
+		expect(getMusicalPosition(500, 120, 1000)).toEqual({
+			bar: 0,
+			beat: 4,
+			eightCount: 0,
+			count: 8
+		});
+	});
+
+	it('follows tempo changes', () => {
+		// 120 BPM for the first bar (2 s), then 60 BPM
+		const tempoMap = [{ startBeat: 4, bpm: 60 }];
+		expect(getMusicalPosition(5000, 120, 1000, tempoMap)).toEqual({
+			bar: 2,
+			beat: 3,
+			eightCount: 1,
+			count: 7
+		});
+	});
+});
+
+describe('annotation export', () => {
+	it('sorts annotations and includes layer names and positions', () => {
+		const data = buildAnnotationExport(session, layers);
+
+		expect(data.annotations.map((a) => [a.label, a.layer])).toEqual([
+			['Intro', 'Instruments'],
+			['Turn, "fast"', 'Moves']
+		]);
+		expect(data.annotations[1].start.bar).toBe(3);
+	});
+
+	it('round-trips through JSON and CSV', () => {
+		const data = buildAnnotationExport(session, layers);
+		const expected = [
+			{ startTimeMs: 1000, endTimeMs: 3250, label: 'Intro', color: '#00ff00' },
+			{ startTimeMs: 5000, endTimeMs: 5000, label: 'Turn, "fast"', color: '#ff0000', isPoint: true }
+		];
+
+		expect(parseAnnotationsJson(formatAnnotationsJson(data))).toEqual(expected);
+		expect(parseAnnotationsCsv(formatAnnotationsCsv(data))).toEqual(expected);
+	});
+});
+
+describe('annotation layers on import', () => {
+	// Another session of the same song, with the layers in a different order
+	const targetLayers: AnnotationLayer[] = [
+		{ id: 'target-moves', name: 'moves', visible: true, locked: false },
+		{ id: 'target-inst', name: 'Instruments', visible: true, locked: false }
+	];
+
+	it('round-trips layers by name through JSON and CSV', () => {
+		const data = buildAnnotationExport(session, layers);
+		const layerIds = (imported: { layerId?: string }[]) => imported.map((a) => a.layerId);
+
+		expect(layerIds(parseAnnotationsJson(formatAnnotationsJson(data), targetLayers))).toEqual([
+			'target-inst',
+			'target-moves'
+		]);
+		expect(layerIds(parseAnnotationsCsv(formatAnnotationsCsv(data), targetLayers))).toEqual([
+			'target-inst',
+			'target-moves'
+		]);
+	});
+
+	it('leaves annotations on unknown layers to the import target', () => {
+		const [annotation] = parseAnnotationsCsv(
+			'layer,startTimeMs,endTimeMs\nLyrics,0,10',
+			targetLayers
+		);
+		expect(annotation.layerId).toBeUndefined();
+	});
+
+	it('reads the layer of a single-layer export', () => {
+		const text = JSON.stringify({
+			layer: 'Moves',
+			annotations: [{ startTimeMs: 0, endTimeMs: 10 }]
+		});
+		expect(parseAnnotationsJson(text, targetLayers)[0].layerId).toBe('target-moves');
+	});
+});
+
+describe('parseCsv', () => {
+	it('handles quoted commas, quotes and line breaks', () => {
+		expect(parseCsv('a,"b, ""c""\nd"\r\n1,2\n\n')).toEqual([
+			['a', 'b, "c"\nd'],
+			['1', '2']
+		]);
+	});
+});
+
+describe('annotation import validation', () => {
+	it('rejects files without annotations or with invalid times', () => {
+		expect(() => parseAnnotationsJson('{"foo": 1}')).toThrow('annotation list');
+		expect(() => parseAnnotationsJson('[{"startTimeMs": 10, "endTimeMs": 5}]')).toThrow(
+			'ends before it starts'
+		);
+		expect(() => parseAnnotationsCsv('label,startTimeMs\nA,100')).toThrow('endTimeMs');
+		expect(() => parseAnnotationsCsv('startTimeMs,endTimeMs\n0,10\nabc,20')).toThrow('Row 3');
+	});
+
+	it('falls back to a preset colour and a default label', () => {
+		const [annotation] = parseAnnotationsCsv('startTimeMs,endTimeMs,color\n0,10,red');
+		expect(annotation.label).toBe('Annotation');
+		expect(annotation.color).toMatch(/^#/);
+	});
+});
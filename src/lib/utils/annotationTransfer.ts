@@ -0,0 +1,345 @@
+/**
+ * JSON and CSV annotation export/import
+ * Exports carry absolute times plus the musical position (bar, beat, 8-count) derived
+ * from the session's beat grid. Imports only read the absolute times; positions are
+ * recomputed against the target session's grid. Layers travel by name.
+ */
+
+import type { Annotation, AnnotationLayer, TempoSection } from '../types';
+import { resolveLayerId } from './annotationLayers';
+import { PRESET_COLORS } from './colorNames';
+import type { ImportedAnnotation } from './audacityLabels';
+import { secondsToBeats } from './tempoMap';
+
+export const ANNOTATIONS_FORMAT = 'music-nerd-annotations';
+export const ANNOTATIONS_VERSION = 1;
+
+// The beat grid has no time signature, so bars are counted in 4/4
+const BEATS_PER_BAR = 4;
+const BEATS_PER_EIGHT_COUNT = 8;
+
+/**
+ * Position on the beat grid. Bars and 8-counts are numbered from 1 at the first beat
+ * (times before it get 0 or negative numbers); beat and count include the fraction
+ * into the beat, so 2.5 is halfway between beats 2 and 3.
+ */
+export interface MusicalPosition {
+	bar: number;
+	beat: number;
+	eightCount: number;
+	count: number;
+}
+
+export interface AnnotationExportRow {
+	label: string;
+	color: string;
+	layer: string;
+	isPoint: boolean;
+	startTimeMs: number;
+	endTimeMs: number;
+	start: MusicalPosition;
+	end: MusicalPosition;
+}
+
+export interface AnnotationExport {
+	format: typeof ANNOTATIONS_FORMAT;
+	version: number;
+	sessionName: string;
+	bpm: number;
+	beatOffset: number;
+	tempoMap?: TempoSection[];
+	annotations: AnnotationExportRow[];
+}
+
+/**
+ * Musical position of a time on the beat grid
+ * @param beatOffset - Time of the first beat in milliseconds
+ * @param tempoMap - Tempo changes after the first beat
+ */
+export function getMusicalPosition(
+	timeMs: number,
+	bpm: number,
+	beatOffset: number,
+	tempoMap?: TempoSection[]
+): MusicalPosition {
+	if (bpm <= 0) return { bar: 1, beat: 1, eightCount: 1, count: 1 };
+
+	const beats = secondsToBeats((timeMs - beatOffset) / 1000, { bpm, tempoMap });
+	// Round first so times a hair before a beat don't land at x.99 of the previous one
+	const rounded = Math.round(beats * 100) / 100;
+	const whole = Math.floor(rounded);
+	const inCycle = (size: number) => Math.round((((rounded % size) + size) % size) * 100) / 100 + 1;
+
+	return {
+		bar: Math.floor(whole / BEATS_PER_BAR) + 1,
+		beat: inCycle(BEATS_PER_BAR),
+		eightCount: Math.floor(whole / BEATS_PER_EIGHT_COUNT) + 1,
+		count: inCycle(BEATS_PER_EIGHT_COUNT)
+	};
+}
+
+/**
+ * Annotations sorted by time, with their layer names and musical positions
+ */
+export function buildAnnotationExport(
+	session: {
+		filename: string;
+		bpm: number;
+		beatOffset: number;
+		tempoMap?: TempoSection[];
+		annotations: Annotation[];
+	},
+	layers: AnnotationLayer[]
+): AnnotationExport {
+	const { bpm, beatOffset, tempoMap } = session;
+	const layerNames = new Map(layers.map((layer) => [layer.id, layer.name]));
+
+	const annotations = [...session.annotations]
+		.sort((a, b) => a.startTimeMs - b.startTimeMs)
+		.map((annotation) => ({
+			label: annotation.label,
+			color: annotation.color,
+			layer: layerNames.get(resolveLayerId(annotation, layers)) ?? '',
+			isPoint: !!annotation.isPoint,
+			startTimeMs: annotation.startTimeMs,
+			endTimeMs: annotation.endTimeMs,
+			start: getMusicalPosition(annotation.startTimeMs, bpm, beatOffset, tempoMap),
+			end: getMusicalPosition(annotation.endTimeMs, bpm, beatOffset, tempoMap)
+		}));
+
+	return {
+		format: ANNOTATIONS_FORMAT,
+		version: ANNOTATIONS_VERSION,
+		sessionName: session.filename,
+		bpm,
+		beatOffset,
+		...(tempoMap?.length ? { tempoMap } : {}),
+		annotations
+	};
+}
+
+export function formatAnnotationsJson(data: AnnotationExport): string {
+	return JSON.stringify(data, null, 2);
+}
+
+const CSV_COLUMNS = [
+	'label',
+	'color',
+	'layer',
+	'isPoint',
+	'startTimeMs',
+	'endTimeMs',
+	'startBar',
+	'startBeat',
+	'startEightCount',
+	'startCount',
+	'endBar',
+	'endBeat',
+	'endEightCount',
+	'endCount'
+] as const;
+
+function escapeCsvField(value: string | number | boolean): string {
+	const text = String(value);
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function formatAnnotationsCsv(data: AnnotationExport): string {
+	const rows = data.annotations.map((a) =>
+		[
+			a.label,
+			a.color,
+			a.layer,
+			a.isPoint,
+			a.startTimeMs,
+			a.endTimeMs,
+			a.start.bar,
+			a.start.beat,
+			a.start.eightCount,
+			a.start.count,
+			a.end.bar,
+			a.end.beat,
+			a.end.eightCount,
+			a.end.count
+		]
+			.map(escapeCsvField)
+			.join(',')
+	);
+
+	return [CSV_COLUMNS.join(','), ...rows].map((line) => `${line}\r\n`).join('');
+}
+
+/**
+ * Split CSV text into rows of fields, handling quoted fields with commas, quotes and line breaks
+ */
+export function parseCsv(text: string): string[][] {
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let field = '';
+	let inQuotes = false;
+
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i];
+		if (inQuotes) {
+			if (char === '"' && text[i + 1] === '"') {
+				field += '"';
+				i++;
+			} else if (char === '"') {
+				inQuotes = false;
+			} else {
+				field += char;
+			}
+		} else if (char === '"') {
+			inQuotes = true;
+		} else if (char === ',') {
+			row.push(field);
+			field = '';
+		} else if (char === '\n' || char === '\r') {
+			if (char === '\r' && text[i + 1] === '\n') i++;
+			row.push(field);
+			rows.push(row);
+			row = [];
+			field = '';
+		} else {
+			field += char;
+		}
+	}
+
+	if (field || row.length > 0) {
+		row.push(field);
+		rows.push(row);
+	}
+
+	// Spreadsheets often append empty lines
+	return rows.filter((r) => r.some((value) => value.trim() !== ''));
+}
+
+/**
+ * The target session's layer with an exported layer name, compared without case
+ */
+function findLayerId(layers: AnnotationLayer[], name: unknown): string | undefined {
+	if (typeof name !== 'string' || !name.trim()) return undefined;
+	const wanted = name.trim().toLowerCase();
+	return layers.find((layer) => layer.name.trim().toLowerCase() === wanted)?.id;
+}
+
+/**
+ * Check one imported annotation and normalise it
+ * @param where - Human-readable location used in error messages
+ * @param layers - The target session's layers; annotations whose layer is not among them get no layerId
+ */
+function toImportedAnnotation(
+	value: {
+		label: unknown;
+		color: unknown;
+		layer: unknown;
+		isPoint: unknown;
+		startTimeMs: unknown;
+		endTimeMs: unknown;
+	},
+	where: string,
+	layers: AnnotationLayer[]
+): ImportedAnnotation {
+	const startTimeMs = Number(value.startTimeMs);
+	const endTimeMs = Number(value.endTimeMs);
+	if (
+		value.startTimeMs === '' ||
+		value.startTimeMs == null ||
+		!Number.isFinite(startTimeMs) ||
+		startTimeMs < 0
+	) {
+		throw new Error(`${where} has an invalid start time`);
+	}
+	if (value.endTimeMs === '' || value.endTimeMs == null || !Number.isFinite(endTimeMs)) {
+		throw new Error(`${where} has an invalid end time`);
+	}
+	if (endTimeMs < startTimeMs) {
+		throw new Error(`${where} ends before it starts`);
+	}
+
+	const label = typeof value.label === 'string' ? value.label.trim() : '';
+	const color =
+		typeof value.color === 'string' && /^#[0-9a-f]{3,8}$/i.test(value.color.trim())
+			? value.color.trim()
+			: PRESET_COLORS[0];
+	const isPoint = value.isPoint === true || value.isPoint === 'true' || startTimeMs === endTimeMs;
+	const layerId = findLayerId(layers, value.layer);
+
+	return {
+		startTimeMs: Math.round(startTimeMs),
+		endTimeMs: Math.round(endTimeMs),
+		label: label || 'Annotation',
+		color,
+		...(isPoint ? { isPoint } : {}),
+		...(layerId ? { layerId } : {})
+	};
+}
+
+/**
+ * Read annotations from an exported JSON file (or a bare array of annotations)
+ * @param layers - The target session's layers, matched by name
+ * @throws Error describing the first invalid entry
+ */
+export function parseAnnotationsJson(
+	text: string,
+	layers: AnnotationLayer[] = []
+): ImportedAnnotation[] {
+	let data: unknown;
+	try {
+		data = JSON.parse(text);
+	} catch {
+		throw new Error('File is not valid JSON');
+	}
+
+	const list = Array.isArray(data) ? data : (data as Partial<AnnotationExport> | null)?.annotations;
+	if (!Array.isArray(list)) {
+		throw new Error('File does not contain an annotation list');
+	}
+	// Single-layer exports name their layer once, at the top
+	const fileLayer = Array.isArray(data) ? undefined : (data as { layer?: unknown }).layer;
+
+	return list.map((entry, index) => {
+		if (!entry || typeof entry !== 'object') {
+			throw new Error(`Annotation ${index + 1} is not an object`);
+		}
+		return toImportedAnnotation({ layer: fileLayer, ...entry }, `Annotation ${index + 1}`, layers);
+	});
+}
+
+/**
+ * Read annotations from an exported CSV file. Only startTimeMs and endTimeMs are required;
+ * columns may be in any order.
+ * @param layers - The target session's layers, matched by name
+ * @throws Error naming the first invalid row
+ */
+export function parseAnnotationsCsv(
+	text: string,
+	layers: AnnotationLayer[] = []
+): ImportedAnnotation[] {
+	const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ''));
+	if (!header) return [];
+
+	const columns = header.map((name) => name.trim());
+	for (const required of ['startTimeMs', 'endTimeMs']) {
+		if (!columns.includes(required)) {
+			throw new Error(`CSV is missing the "${required}" column`);
+		}
+	}
+
+	return rows.map((row, index) => {
+		const get = (column: string) => row[columns.indexOf(column)];
+		return toImportedAnnotation(
+			{
+				label: get('label'),
+				color: get('color'),
+				layer: get('layer'),
+				isPoint: get('isPoint'),
+				startTimeMs: get('startTimeMs'),
+				endTimeMs: get('endTimeMs')
+			},
+			// +2: rows are 1-based and the header is row 1
+			`Row ${index + 2}`,
+			layers
+		);
+	});
+}
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { formatAudacityLabels, labelsToAnnotations, parseAudacityLabels } from './audacityLabels';
+
+describe('formatAudacityLabels', () => {
+	it('writes tab-separated seconds sorted by start, with points as zero-length labels', () => {
+		const text = formatAudacityLabels([
+			{ id: 'b', startTimeMs: 2500, endTimeMs: 4000, label: 'Verse\t1', color: '#fff' },
+			{ id: 'a', startTimeMs: 1000, endTimeMs: 1000, label: 'Hit', color: '#fff', isPoint: true }
+		]);
+
+		expect(text).toBe('1.000000\t1.000000\tHit\n2.500000\t4.000000\tVerse 1\n');
+	});
+});
+
+describe('parseAudacityLabels', () => {
+	it('reads labels and skips spectral selection lines', () => {
+		const labels = parseAudacityLabels('0.5\t1.25\tIntro\n\\\t100\t2000\n3\t3\tBreak\n');
+
+		expect(labels).toEqual([
+			{ startTimeMs: 500, endTimeMs: 1250, label: 'Intro' },
+			{ startTimeMs: 3000, endTimeMs: 3000, label: 'Break' }
+		]);
+	});
+
+	it('names the first invalid line', () => {
+		expect(() => parseAudacityLabels('0\t1\tOk\nnot a label')).toThrow('line 2');
+	});
+});
+
+describe('labelsToAnnotations', () => {
+	it('colours label groups consistently and marks zero-length labels as points', () => {
+		const annotations = labelsToAnnotations(
+			[
+				{ startTimeMs: 0, endTimeMs: 1000, label: 'Chorus 1' },
+				{ startTimeMs: 1000, endTimeMs: 1000, label: 'Red 1' },
+				{ startTimeMs: 2000, endTimeMs: 3000, label: 'Chorus 2' },
+				{ startTimeMs: 3000, endTimeMs: 4000, label: 'Verse 1' }
+			],
+			[{ label: 'Verse 3', color: '#123456' }]
+		);
+
+		expect(annotations.map((a) => a.color)).toEqual(['#00ff00', '#ff0000', '#00ff00', '#123456']);
+		expect(annotations[1].isPoint).toBe(true);
+		expect(annotations[0].isPoint).toBeUndefined();
+	});
+});
@@ -0,0 +1,104 @@
+/**
+ * Audacity label track import/export
+ * A label file has one label per line: start and end in seconds and the label text,
+ * separated by tabs. Point labels have equal start and end times.
+ */
+
+import type { Annotation } from '../types';
+import { PRESET_COLORS, getColorForGroupKey, getGroupKey } from './colorNames';
+
+export interface AudacityLabel {
+	startTimeMs: number;
+	endTimeMs: number;
+	label: string;
+}
+
+export type ImportedAnnotation = Omit<Annotation, 'id'>;
+
+function formatSeconds(ms: number): string {
+	return (ms / 1000).toFixed(6);
+}
+
+/**
+ * Serialize annotations as an Audacity label file, ordered by start time
+ */
+export function formatAudacityLabels(annotations: Annotation[]): string {
+	return [...annotations]
+		.sort((a, b) => a.startTimeMs - b.startTimeMs)
+		.map((annotation) => {
+			const end = annotation.isPoint ? annotation.startTimeMs : annotation.endTimeMs;
+			// Tabs and line breaks would split the label across columns or lines
+			const label = annotation.label.replace(/[\t\r\n]+/g, ' ');
+			return `${formatSeconds(annotation.startTimeMs)}\t${formatSeconds(end)}\t${label}\n`;
+		})
+		.join('');
+}
+
+/**
+ * Parse an Audacity label file. Spectral selection lines (starting with "\") are ignored.
+ * @throws Error naming the first line that is not a valid label
+ */
+export function parseAudacityLabels(text: string): AudacityLabel[] {
+	const labels: AudacityLabel[] = [];
+
+	text.split(/\r?\n/).forEach((line, index) => {
+		if (!line.trim() || line.startsWith('\\')) return;
+
+		const [startText, endText, ...labelParts] = line.split('\t');
+		const start = Number(startText);
+		const end = Number(endText);
+		if (
+			!startText?.trim() ||
+			!endText?.trim() ||
+			!Number.isFinite(start) ||
+			!Number.isFinite(end) ||
+			end < start
+		) {
+			throw new Error(`Invalid label on line ${index + 1}`);
+		}
+
+		labels.push({
+			startTimeMs: Math.round(start * 1000),
+			endTimeMs: Math.round(end * 1000),
+			label: labelParts.join(' ').trim()
+		});
+	});
+
+	return labels;
+}
+
+/**
+ * Turn parsed labels into annotations, colouring each label group consistently:
+ * groups named after a colour use it, groups already in the session keep their colour,
+ * and other groups take preset colours in order of appearance.
+ */
+export function labelsToAnnotations(
+	labels: AudacityLabel[],
+	existing: Pick<Annotation, 'label' | 'color'>[] = []
+): ImportedAnnotation[] {
+	const groupColors = new Map<string, string>();
+	for (const annotation of existing) {
+		const key = getGroupKey(annotation.label);
+		if (!groupColors.has(key)) groupColors.set(key, annotation.color);
+	}
+
+	let nextPreset = 0;
+	return labels.map(({ startTimeMs, endTimeMs, label }) => {
+		const key = getGroupKey(label);
+		let color = groupColors.get(key) ?? getColorForGroupKey(key);
+		if (!color) {
+			color = PRESET_COLORS[nextPreset % PRESET_COLORS.length];
+			nextPreset++;
+		}
+		groupColors.set(key, color);
+
+		const isPoint = startTimeMs === endTimeMs;
+		return {
+			startTimeMs,
+			endTimeMs,
+			label: label || 'Label',
+			color,
+			...(isPoint ? { isPoint } : {})
+		};
+	});
+}
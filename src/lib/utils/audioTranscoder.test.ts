@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { shouldTranscode, DEFAULT_IMPORT_SETTINGS } from './audioTranscoder';
+
+const MB = 1024 * 1024;
+
+describe('shouldTranscode', () => {
+	it('compresses lossless formats by extension or MIME type', () => {
+		expect(shouldTranscode({ name: 'Kick.WAV', type: '', size: MB }, DEFAULT_IMPORT_SETTINGS)).toBe(
+			true
+		);
+		expect(
+			shouldTranscode({ name: 'bass.flac', type: 'audio/flac', size: MB }, DEFAULT_IMPORT_SETTINGS)
+		).toBe(true);
+		expect(
+			shouldTranscode({ name: 'vocals', type: 'audio/x-aiff', size: MB }, DEFAULT_IMPORT_SETTINGS)
+		).toBe(true);
+	});
+
+	it('leaves small compressed files alone', () => {
+		expect(
+			shouldTranscode(
+				{ name: 'song.mp3', type: 'audio/mpeg', size: 5 * MB },
+				DEFAULT_IMPORT_SETTINGS
+			)
+		).toBe(false);
+		expect(
+			shouldTranscode(
+				{ name: 'song.m4a', type: 'audio/mp4', size: 8 * MB },
+				DEFAULT_IMPORT_SETTINGS
+			)
+		).toBe(false);
+	});
+
+	it('compresses large files whatever their format', () => {
+		expect(
+			shouldTranscode(
+				{ name: 'mix.mp3', type: 'audio/mpeg', size: 40 * MB },
+				DEFAULT_IMPORT_SETTINGS
+			)
+		).toBe(true);
+	});
+
+	it('never compresses when keeping originals', () => {
+		const settings = { ...DEFAULT_IMPORT_SETTINGS, keepOriginal: true };
+		expect(shouldTranscode({ name: 'stem.wav', type: 'audio/wav', size: 60 * MB }, settings)).toBe(
+			false
+		);
+	});
+});
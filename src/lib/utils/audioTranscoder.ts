@@ -0,0 +1,167 @@
+/**
+ * Import-time audio compression
+ * Lossless or very large imports are re-encoded to MP3 with Mediabunny before they are
+ * persisted, so stem sessions do not exhaust the IndexedDB quota.
+ */
+
+import {
+	Input,
+	BlobSource,
+	ALL_FORMATS,
+	Output,
+	Mp3OutputFormat,
+	BufferTarget,
+	Conversion,
+	canEncodeAudio
+} from 'mediabunny';
+import { registerMp3Encoder } from '@mediabunny/mp3-encoder';
+
+export interface ImportSettings {
+	keepOriginal: boolean; // Store imported files exactly as dropped
+	bitrate: number; // MP3 bitrate in kbps used when compressing
+}
+
+export const MP3_BITRATE_OPTIONS = [128, 192, 256, 320];
+
+export const DEFAULT_IMPORT_SETTINGS: ImportSettings = {
+	keepOriginal: false,
+	bitrate: 192
+};
+
+const IMPORT_SETTINGS_KEY = 'import-settings';
+const LOSSLESS_EXTENSIONS = ['.wav', '.wave', '.flac', '.aif', '.aiff'];
+const LOSSLESS_MIME_TYPES = [
+	'audio/wav',
+	'audio/wave',
+	'audio/x-wav',
+	'audio/flac',
+	'audio/x-flac',
+	'audio/aiff',
+	'audio/x-aiff'
+];
+const LARGE_FILE_BYTES = 20 * 1024 * 1024; // Anything bigger is worth re-encoding whatever its format
+
+let mp3EncoderRegistered = false;
+
+/**
+ * Ensure an MP3 encoder is available (lazy initialization)
+ * Uses native encoding when the browser supports it, otherwise the WASM encoder
+ */
+export async function ensureMp3Encoder(): Promise<void> {
+	if (mp3EncoderRegistered) {
+		return;
+	}
+
+	if (!(await canEncodeAudio('mp3'))) {
+		registerMp3Encoder();
+	}
+	mp3EncoderRegistered = true;
+}
+
+/**
+ * Read import settings from localStorage, falling back to defaults
+ */
+export function loadImportSettings(): ImportSettings {
+	if (typeof localStorage !== 'undefined') {
+		const saved = localStorage.getItem(IMPORT_SETTINGS_KEY);
+		if (saved) {
+			try {
+				return { ...DEFAULT_IMPORT_SETTINGS, ...JSON.parse(saved) };
+			} catch (e) {
+				console.error('Failed to parse saved import settings:', e);
+			}
+		}
+	}
+
+	return { ...DEFAULT_IMPORT_SETTINGS };
+}
+
+/**
+ * Persist import settings to localStorage
+ */
+export function saveImportSettings(settings: ImportSettings): void {
+	if (typeof localStorage !== 'undefined') {
+		localStorage.setItem(IMPORT_SETTINGS_KEY, JSON.stringify(settings));
+	}
+}
+
+/**
+ * Whether an imported file should be re-encoded before storage
+ */
+export function shouldTranscode(
+	file: Pick<File, 'name' | 'type' | 'size'>,
+	settings: ImportSettings
+): boolean {
+	if (settings.keepOriginal) {
+		return false;
+	}
+
+	const name = file.name.toLowerCase();
+	const isLossless =
+		LOSSLESS_EXTENSIONS.some((extension) => name.endsWith(extension)) ||
+		LOSSLESS_MIME_TYPES.includes(file.type.toLowerCase());
+
+	return isLossless || file.size > LARGE_FILE_BYTES;
+}
+
+/**
+ * Re-encode any audio file Mediabunny can read to MP3
+ * @param bitrate Target bitrate in kbps
+ */
+export async function transcodeToMp3(file: Blob, bitrate: number): Promise<ArrayBuffer> {
+	await ensureMp3Encoder();
+
+	const input = new Input({
+		source: new BlobSource(file),
+		formats: ALL_FORMATS
+	});
+	const target = new BufferTarget();
+	const output = new Output({
+		format: new Mp3OutputFormat(),
+		target
+	});
+
+	const conversion = await Conversion.init({
+		input,
+		output,
+		audio: { bitrate: bitrate * 1000 },
+		video: { discard: true }
+	});
+
+	if (!conversion.isValid) {
+		const discardedReasons = conversion.discardedTracks.map((t) => t.reason).join(', ');
+		throw new Error(`Cannot convert to MP3. Discarded tracks: ${discardedReasons}`);
+	}
+
+	await conversion.execute();
+
+	if (!target.buffer) {
+		throw new Error('MP3 conversion produced no output');
+	}
+
+	return target.buffer.slice(0) as ArrayBuffer;
+}
+
+/**
+ * Audio bytes to persist for an imported file: compressed to MP3 when the settings
+ * call for it, otherwise (or if compression fails or does not help) the original bytes
+ */
+export async function prepareAudioForStorage(
+	file: File,
+	settings: ImportSettings
+): Promise<ArrayBuffer> {
+	if (!shouldTranscode(file, settings)) {
+		return await file.arrayBuffer();
+	}
+
+	try {
+		const compressed = await transcodeToMp3(file, settings.bitrate);
+		if (compressed.byteLength < file.size) {
+			return compressed;
+		}
+	} catch (error) {
+		console.warn(`Failed to compress ${file.name}, storing original:`, error);
+	}
+
+	return await file.arrayBuffer();
+}
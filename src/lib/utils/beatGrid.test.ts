@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import {
+	generateBeats,
+	getBeatIndexAtTime,
+	getBeatPosition,
+	getBeatTime,
+	normalizeBeatAnchors
+} from './beatGrid';
+import type { TempoSection } from '../types';
+
+const times = (beats: { time: number }[]) =>
+	beats.map((beat) => Math.round(beat.time * 10000) / 10000);
+
+describe('generateBeats', () => {
+	it('places beats from the offset at a constant tempo', () => {
+		expect(times(generateBeats(120, 100, 2))).toEqual([0.1, 0.6, 1.1, 1.6]);
+	});
+
+	it('stretches the grid between anchors and moves it with them outside', () => {
+		// Beat 2 played late (1.2 s instead of 1 s), beat 6 on time (3 s)
+		const beats = generateBeats(120, 0, 4.5, undefined, [
+			{ beatIndex: 2, time: 1.2 },
+			{ beatIndex: 6, time: 3 }
+		]);
+		expect(times(beats)).toEqual([0.2, 0.7, 1.2, 1.65, 2.1, 2.55, 3, 3.5, 4]);
+	});
+
+	it('follows the tempo map between anchors', () => {
+		// 120 BPM for 4 beats, then 60 BPM; beat 6 pinned 0.5 s early
+		const beats = generateBeats(
+			120,
+			0,
+			5,
+			[{ startBeat: 4, bpm: 60 }],
+			[
+				{ beatIndex: 0, time: 0 },
+				{ beatIndex: 6, time: 3.5 }
+			]
+		);
+		expect(times(beats)).toEqual([0, 0.4375, 0.875, 1.3125, 1.75, 2.625, 3.5, 4.5]);
+	});
+
+	it('returns a finite grid for broken input', () => {
+		expect(generateBeats(120, 0, Infinity)).toEqual([]);
+		expect(generateBeats(120, 0, NaN)).toEqual([]);
+		expect(generateBeats(NaN, 0, 10)).toEqual([]);
+		expect(generateBeats(120, NaN, 10)).toEqual([]);
+		// Sections without a usable tempo are ignored
+		const broken = [{ startBeat: 2, bpm: 0 }, { startBeat: 3 } as unknown as TempoSection];
+		expect(times(generateBeats(120, 0, 2, broken))).toEqual([0, 0.5, 1, 1.5]);
+	});
+});
+
+describe('normalizeBeatAnchors', () => {
+	it('sorts, rounds and drops anchors that would run the grid backwards', () => {
+		expect(
+			normalizeBeatAnchors([
+				{ beatIndex: 8.2, time: 4 },
+				{ beatIndex: -1, time: 0 },
+				{ beatIndex: 4, time: 5 },
+				{ beatIndex: 2, time: 1.1 },
+				{ beatIndex: 2, time: 1 }
+			])
+		).toEqual([
+			{ beatIndex: 2, time: 1 },
+			{ beatIndex: 4, time: 5 }
+		]);
+	});
+});
+
+describe('beat positions', () => {
+	const beats = generateBeats(120, 0, 2.9, undefined, [
+		{ beatIndex: 0, time: 0 },
+		{ beatIndex: 2, time: 1.5 }
+	]);
+
+	it('interpolates between beats and extrapolates past either end', () => {
+		expect(getBeatTime(beats, 1.5)).toBeCloseTo(1.125);
+		expect(getBeatTime(beats, -1)).toBeCloseTo(-0.75);
+		expect(getBeatTime(beats, 5)).toBeCloseTo(3);
+	});
+
+	it('converts times back to beat positions', () => {
+		expect(getBeatPosition(beats, 1.125)).toBeCloseTo(1.5);
+		expect(getBeatPosition(beats, -0.75)).toBeCloseTo(-1);
+		expect(getBeatPosition(beats, 3)).toBeCloseTo(5);
+	});
+
+	it('finds the beat playing at a time', () => {
+		expect(getBeatIndexAtTime(beats, -0.1)).toBe(-1);
+		expect(getBeatIndexAtTime(beats, 0.75)).toBe(1);
+		expect(getBeatIndexAtTime(beats, 10)).toBe(beats.length - 1);
+	});
+});
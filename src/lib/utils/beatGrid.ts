@@ -0,0 +1,122 @@
+import type { Beat, BeatAnchor, TempoSection } from '../types';
+import { beatsToSeconds } from './tempoMap';
+
+// Upper bound on a generated grid, far above any song (three hours at 500 BPM)
+const MAX_BEATS = 100_000;
+
+/**
+ * Generate a beat grid
+ * @param bpm - Tempo in beats per minute (the starting tempo when there is a tempo map)
+ * @param offsetMs - Time of the first beat in milliseconds
+ * @param duration - Audio duration in seconds
+ * @param tempoMap - Tempo changes after the first beat
+ * @param anchors - Beats pinned to times in the audio
+ */
+export function generateBeats(
+	bpm: number,
+	offsetMs: number,
+	duration: number,
+	tempoMap?: TempoSection[],
+	anchors?: BeatAnchor[]
+): Beat[] {
+	if (!Number.isFinite(bpm) || bpm <= 0) return [];
+	if (!Number.isFinite(offsetMs) || !Number.isFinite(duration)) return [];
+
+	const offsetInSeconds = offsetMs / 1000;
+	const grid = { bpm, tempoMap };
+	const gridTime = (beat: number) => beatsToSeconds(beat, grid) + offsetInSeconds;
+	const pinned = normalizeBeatAnchors(anchors ?? []);
+
+	const beats: Beat[] = [];
+	for (let i = 0; i < MAX_BEATS; i++) {
+		const time = warpBeatTime(i, gridTime, pinned);
+		// A grid that stops moving forward would never reach the end of the audio
+		const previous = beats[beats.length - 1];
+		if (!Number.isFinite(time) || (previous && time <= previous.time)) break;
+		if (time >= duration) break;
+		beats.push({ index: i, time });
+	}
+	return beats;
+}
+
+/**
+ * Clean up beat anchors: whole beat indices from 0 on, one anchor per beat (the last one wins),
+ * in beat order. Anchors that are not later than the anchor before them are dropped, so the
+ * grid never runs backwards.
+ */
+export function normalizeBeatAnchors(anchors: BeatAnchor[]): BeatAnchor[] {
+	const byBeat = new Map<number, number>();
+	for (const anchor of anchors) {
+		const beatIndex = Math.round(anchor.beatIndex);
+		if (!Number.isFinite(beatIndex) || beatIndex < 0 || !Number.isFinite(anchor.time)) continue;
+		byBeat.set(beatIndex, anchor.time);
+	}
+
+	const normalized: BeatAnchor[] = [];
+	for (const [beatIndex, time] of [...byBeat.entries()].sort((a, b) => a[0] - b[0])) {
+		const previous = normalized[normalized.length - 1];
+		if (previous && time <= previous.time) continue;
+		normalized.push({ beatIndex, time });
+	}
+	return normalized;
+}
+
+/**
+ * Time of a beat once the anchors are applied. Between two anchors the grid is stretched to
+ * fit them; before the first and after the last anchor it keeps its tempo and moves with them.
+ */
+function warpBeatTime(
+	beat: number,
+	gridTime: (beat: number) => number,
+	anchors: BeatAnchor[]
+): number {
+	if (anchors.length === 0) return gridTime(beat);
+
+	const nextIndex = anchors.findIndex((anchor) => anchor.beatIndex >= beat);
+	if (nextIndex <= 0) {
+		const anchor = nextIndex === 0 ? anchors[0] : anchors[anchors.length - 1];
+		return gridTime(beat) + anchor.time - gridTime(anchor.beatIndex);
+	}
+
+	const previous = anchors[nextIndex - 1];
+	const next = anchors[nextIndex];
+	const fraction =
+		(gridTime(beat) - gridTime(previous.beatIndex)) /
+		(gridTime(next.beatIndex) - gridTime(previous.beatIndex));
+	return previous.time + fraction * (next.time - previous.time);
+}
+
+/**
+ * Time in seconds of a (possibly fractional) beat position. Positions between beats are
+ * interpolated; before the first or after the last beat the grid continues at the pace of
+ * its first or last beat. Needs at least two beats.
+ */
+export function getBeatTime(beats: Beat[], position: number): number {
+	const i = Math.min(Math.max(Math.floor(position), 0), beats.length - 2);
+	return beats[i].time + (position - i) * (beats[i + 1].time - beats[i].time);
+}
+
+/**
+ * Beat position (fractional) at a time in seconds, the inverse of getBeatTime.
+ * Needs at least two beats.
+ */
+export function getBeatPosition(beats: Beat[], time: number): number {
+	// Last beat at or before the time, limited so there is always a following beat
+	let low = 0;
+	let high = beats.length - 2;
+	while (low < high) {
+		const mid = Math.ceil((low + high) / 2);
+		if (beats[mid].time <= time) low = mid;
+		else high = mid - 1;
+	}
+	return low + (time - beats[low].time) / (beats[low + 1].time - beats[low].time);
+}
+
+/**
+ * Index of the beat playing at a time, or -1 before the first beat
+ */
+export function getBeatIndexAtTime(beats: Beat[], time: number): number {
+	if (beats.length === 0 || time < beats[0].time) return -1;
+	if (beats.length === 1) return 0;
+	return Math.min(beats.length - 1, Math.floor(getBeatPosition(beats, time)));
+}
@@ -183,8 +183,7 @@ export function drawActiveBeatFlash(
  */
 export function drawBeatNumbers(
 	ctx: CanvasRenderingContext2D,
-	beatsPerLine: number,
-	width: number,
+	beatXs: number[], // Start of each beat in the row
 	height: number
 ): void {
 	ctx.save();
@@ -193,12 +192,11 @@ export function drawBeatNumbers(
 	ctx.textAlign = 'left';
 	ctx.textBaseline = 'top';
 	
-	const beatWidth = width / beatsPerLine;
 	const padding = 2; // Small padding from top-left corner
 
-	for (let i = 0; i < beatsPerLine; i++) {
+	for (let i = 0; i < beatXs.length; i++) {
 		const beatNumber = (i % 4) + 1; // Cycle 1, 2, 3, 4
-		const x = i * beatWidth + padding;
+		const x = beatXs[i] + padding;
 		const y = padding;
 
 		ctx.fillText(String(beatNumber), x, y);
@@ -309,6 +307,40 @@ export function drawSongStartMarker(
 	ctx.restore();
 }
 
+/**
+ * Draw markers on beats pinned to the audio (beat anchors)
+ */
+export function drawBeatAnchors(
+	ctx: CanvasRenderingContext2D,
+	xs: number[],
+	height: number
+): void {
+	if (xs.length === 0) return;
+
+	ctx.save();
+	ctx.strokeStyle = '#22d3ee'; // cyan-400
+	ctx.fillStyle = '#22d3ee';
+	ctx.lineWidth = 1.5;
+	ctx.globalAlpha = 0.9;
+
+	for (const x of xs) {
+		ctx.beginPath();
+		ctx.moveTo(x, 0);
+		ctx.lineTo(x, height);
+		ctx.stroke();
+
+		// Pin head at the bottom of the line
+		ctx.beginPath();
+		ctx.moveTo(x - 4, height);
+		ctx.lineTo(x + 4, height);
+		ctx.lineTo(x, height - 6);
+		ctx.closePath();
+		ctx.fill();
+	}
+
+	ctx.restore();
+}
+
 /**
  * Draw annotation placeholder (for drag preview)
  */
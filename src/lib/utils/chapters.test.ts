@@ -0,0 +1,177 @@
+import { describe, it, expect } from 'vitest';
+import {
+	buildChapterTag,
+	formatCueSheet,
+	formatCueTime,
+	getChapters,
+	isMp3Data,
+	readId3Frames,
+	replaceId3Tag
+} from './chapters';
+import type { Annotation } from '../types';
+
+const annotations: Annotation[] = [
+	{ id: 'c', startTimeMs: 30000, endTimeMs: 45000, label: 'Shine "1"', color: '#fff' },
+	{ id: 'p', startTimeMs: 20000, endTimeMs: 20000, label: 'Hit', color: '#fff', isPoint: true },
+	{ id: 'a', startTimeMs: 5000, endTimeMs: 30000, label: 'Intro', color: '#fff' },
+	{ id: 'b', startTimeMs: 5000, endTimeMs: 10000, label: 'Break', color: '#fff' }
+];
+
+const text = (bytes: Uint8Array) => String.fromCharCode(...bytes);
+
+describe('getChapters', () => {
+	it('keeps duration annotations in start order', () => {
+		expect(getChapters(annotations).map((c) => c.title)).toEqual(['Break', 'Intro', 'Shine "1"']);
+	});
+});
+
+describe('formatCueTime', () => {
+	it('uses 75 frames per second', () => {
+		expect(formatCueTime(0)).toBe('00:00:00');
+		expect(formatCueTime(61520)).toBe('01:01:39');
+	});
+});
+
+describe('formatCueSheet', () => {
+	it('writes one track per distinct start with a pregap before the first', () => {
+		const cue = formatCueSheet(
+			'song.mp3',
+			{ title: 'Song', artist: 'Band' },
+			getChapters(annotations)
+		);
+
+		expect(cue).toBe(
+			[
+				'PERFORMER "Band"',
+				'TITLE "Song"',
+				'FILE "song.mp3" MP3',
+				'  TRACK 01 AUDIO',
+				'    TITLE "Break"',
+				'    PERFORMER "Band"',
+				'    INDEX 00 00:00:00',
+				'    INDEX 01 00:05:00',
+				'  TRACK 02 AUDIO',
+				'    TITLE "Shine \'1\'"',
+				'    PERFORMER "Band"',
+				'    INDEX 01 00:30:00',
+				''
+			].join('\r\n')
+		);
+	});
+});
+
+describe('buildChapterTag', () => {
+	it('writes an ID3v2.3 tag with a table of contents and one CHAP frame per section', () => {
+		const tag = buildChapterTag({ title: 'Song' }, getChapters(annotations));
+		const content = text(tag);
+
+		expect(content.startsWith('ID3\x03\x00')).toBe(true);
+		expect(content.match(/CHAP/g)).toHaveLength(3);
+		expect(content).toContain('CTOC');
+		expect(content).toContain('toc\x00\x03\x03chp1\x00chp2\x00chp3\x00');
+
+		const size = (tag[6] << 21) | (tag[7] << 14) | (tag[8] << 7) | tag[9];
+		expect(size).toBe(tag.length - 10);
+	});
+});
+
+describe('readId3Frames', () => {
+	// An ID3v2.3 tag as a tagger would write it: title, cover art, an old chapter, padding
+	const apicBody = [
+		0x00,
+		...Array.from('image/png\x00', (c) => c.charCodeAt(0)),
+		0x03,
+		0x00,
+		1,
+		2,
+		3
+	];
+	const sourceFrame = (id: string, body: number[]) => [
+		...Array.from(id, (c) => c.charCodeAt(0)),
+		0,
+		0,
+		0,
+		body.length,
+		0,
+		0,
+		...body
+	];
+	const frames = [
+		...sourceFrame('TIT2', [0x00, ...Array.from('Old title', (c) => c.charCodeAt(0))]),
+		...sourceFrame('APIC', apicBody),
+		...sourceFrame('CHAP', [0x63, 0x00]),
+		0,
+		0,
+		0,
+		0
+	];
+	const source = new Uint8Array([
+		0x49,
+		0x44,
+		0x33,
+		3,
+		0,
+		0,
+		0,
+		0,
+		0,
+		frames.length,
+		...frames,
+		0xff,
+		0xfb
+	]);
+
+	it('reads the frames of an existing tag', () => {
+		const tag = readId3Frames(source);
+		expect(tag?.version).toBe(3);
+		expect(tag?.frames.map((frame) => frame.id)).toEqual(['TIT2', 'APIC', 'CHAP']);
+		expect(Array.from(tag!.frames[1].body)).toEqual(apicBody);
+	});
+
+	it('keeps cover art and other frames, replacing only the regenerated ones', () => {
+		const tag = buildChapterTag({ title: 'Song' }, getChapters(annotations), readId3Frames(source));
+		const rebuilt = readId3Frames(tag);
+
+		expect(rebuilt?.frames.map((frame) => frame.id)).toEqual([
+			'TIT2',
+			'APIC',
+			'CTOC',
+			'CHAP',
+			'CHAP',
+			'CHAP'
+		]);
+		expect(Array.from(rebuilt!.frames[1].body)).toEqual(apicBody);
+		expect(text(tag)).not.toContain('Old title');
+	});
+
+	it('keeps the version of an ID3v2.4 source tag, with its syncsafe frame sizes', () => {
+		const cover = {
+			id: 'APIC',
+			flags: [0, 0] as [number, number],
+			body: new Uint8Array(200).fill(7)
+		};
+		const tag = buildChapterTag({ title: 'Song' }, [], { version: 4, frames: [cover] });
+		const rebuilt = readId3Frames(tag);
+
+		expect(rebuilt?.version).toBe(4);
+		expect(rebuilt?.frames[1]).toEqual(cover);
+	});
+
+	it('ignores MP3s without a tag', () => {
+		expect(readId3Frames(new Uint8Array([0xff, 0xfb, 0x90, 0x00]))).toBeNull();
+	});
+});
+
+describe('replaceId3Tag', () => {
+	it('swaps an existing tag and keeps the audio frames', () => {
+		const audio = [0xff, 0xfb, 0x90, 0x00];
+		const mp3 = new Uint8Array([0x49, 0x44, 0x33, 4, 0, 0, 0, 0, 0, 2, 0xaa, 0xbb, ...audio]);
+		const tag = buildChapterTag(undefined, []);
+
+		const result = replaceId3Tag(mp3, tag);
+		expect(Array.from(result.subarray(tag.length))).toEqual(audio);
+		expect(isMp3Data(result)).toBe(true);
+		expect(isMp3Data(new Uint8Array(audio))).toBe(true);
+		expect(isMp3Data(new TextEncoder().encode('RIFF'))).toBe(false);
+	});
+});
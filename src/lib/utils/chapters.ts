@@ -0,0 +1,302 @@
+/**
+ * Section chapters for media players: CUE sheets and ID3 chapter frames (CHAP/CTOC)
+ * Only duration annotations count as sections; point annotations are left out.
+ */
+
+import type { Annotation, TrackMetadata } from '../types';
+
+const CUE_FRAMES_PER_SECOND = 75;
+const MAX_CUE_TRACKS = 99;
+
+export interface Chapter {
+	title: string;
+	startTimeMs: number;
+	endTimeMs: number;
+}
+
+/**
+ * Duration annotations in start order
+ */
+export function getChapters(annotations: Annotation[]): Chapter[] {
+	return annotations
+		.filter((annotation) => !annotation.isPoint && annotation.endTimeMs > annotation.startTimeMs)
+		.sort((a, b) => a.startTimeMs - b.startTimeMs || a.endTimeMs - b.endTimeMs)
+		.map(({ label, startTimeMs, endTimeMs }) => ({ title: label, startTimeMs, endTimeMs }));
+}
+
+/**
+ * CUE time (minutes:seconds:frames, 75 frames per second)
+ */
+export function formatCueTime(ms: number): string {
+	const totalFrames = Math.round((ms / 1000) * CUE_FRAMES_PER_SECOND);
+	const minutes = Math.floor(totalFrames / (60 * CUE_FRAMES_PER_SECOND));
+	const secondsPart = Math.floor(totalFrames / CUE_FRAMES_PER_SECOND) % 60;
+	const frames = totalFrames % CUE_FRAMES_PER_SECOND;
+	return [minutes, secondsPart, frames].map((n) => n.toString().padStart(2, '0')).join(':');
+}
+
+/**
+ * CUE strings are double-quoted without any escaping
+ */
+function cueString(text: string): string {
+	return `"${text.replace(/"/g, "'").replace(/[\r\n]+/g, ' ')}"`;
+}
+
+/**
+ * Write a CUE sheet with one track per section. A CUE track lasts until the next one
+ * starts, so sections sharing a start time are merged and gaps belong to the previous
+ * section; audio before the first section becomes its pregap.
+ */
+export function formatCueSheet(
+	audioFilename: string,
+	metadata: TrackMetadata | undefined,
+	chapters: Chapter[]
+): string {
+	const lines: string[] = [];
+	if (metadata?.artist) lines.push(`PERFORMER ${cueString(metadata.artist)}`);
+	if (metadata?.title) lines.push(`TITLE ${cueString(metadata.title)}`);
+
+	const fileType = /\.wav$/i.test(audioFilename) ? 'WAVE' : 'MP3';
+	lines.push(`FILE ${cueString(audioFilename)} ${fileType}`);
+
+	let lastStart = '';
+	let trackNumber = 0;
+	for (const chapter of chapters) {
+		const start = formatCueTime(chapter.startTimeMs);
+		if (start === lastStart || trackNumber === MAX_CUE_TRACKS) continue;
+
+		trackNumber++;
+		lines.push(`  TRACK ${trackNumber.toString().padStart(2, '0')} AUDIO`);
+		lines.push(`    TITLE ${cueString(chapter.title)}`);
+		if (metadata?.artist) lines.push(`    PERFORMER ${cueString(metadata.artist)}`);
+		if (trackNumber === 1 && chapter.startTimeMs > 0) lines.push('    INDEX 00 00:00:00');
+		lines.push(`    INDEX 01 ${start}`);
+		lastStart = start;
+	}
+
+	return lines.map((line) => `${line}\r\n`).join('');
+}
+
+function uint32(value: number): number[] {
+	return [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+}
+
+function syncsafe(value: number): number[] {
+	return [(value >> 21) & 0x7f, (value >> 14) & 0x7f, (value >> 7) & 0x7f, value & 0x7f];
+}
+
+function readSyncsafe(bytes: Uint8Array, offset: number): number {
+	return (
+		((bytes[offset] & 0x7f) << 21) |
+		((bytes[offset + 1] & 0x7f) << 14) |
+		((bytes[offset + 2] & 0x7f) << 7) |
+		(bytes[offset + 3] & 0x7f)
+	);
+}
+
+function readUint32(bytes: Uint8Array, offset: number): number {
+	return (
+		((bytes[offset] << 24) |
+			(bytes[offset + 1] << 16) |
+			(bytes[offset + 2] << 8) |
+			bytes[offset + 3]) >>>
+		0
+	);
+}
+
+/**
+ * One frame of an existing ID3v2 tag, kept byte for byte
+ */
+export interface Id3Frame {
+	id: string;
+	flags: [number, number];
+	body: Uint8Array;
+}
+
+/**
+ * Frames of an MP3's leading ID3v2.3 or v2.4 tag, so an export can keep them.
+ * Tags it cannot copy safely (ID3v2.2, whole-tag unsynchronisation) yield null.
+ */
+export function readId3Frames(mp3: Uint8Array): { version: 3 | 4; frames: Id3Frame[] } | null {
+	if (mp3.length < 10 || mp3[0] !== 0x49 || mp3[1] !== 0x44 || mp3[2] !== 0x33) return null;
+
+	const version = mp3[3];
+	const flags = mp3[5];
+	if ((version !== 3 && version !== 4) || (flags & 0x80) !== 0) return null;
+
+	const end = Math.min(mp3.length, 10 + readSyncsafe(mp3, 6));
+	let offset = 10;
+	if ((flags & 0x40) !== 0) {
+		// The extended header's size excludes its own size field in v2.3 only
+		offset += version === 4 ? readSyncsafe(mp3, 10) : 4 + readUint32(mp3, 10);
+	}
+
+	const frames: Id3Frame[] = [];
+	while (offset + 10 <= end) {
+		const id = String.fromCharCode(...mp3.subarray(offset, offset + 4));
+		// Padding (or garbage) ends the frame list
+		if (!/^[A-Z0-9]{4}$/.test(id)) break;
+
+		const size = version === 4 ? readSyncsafe(mp3, offset + 4) : readUint32(mp3, offset + 4);
+		const bodyStart = offset + 10;
+		if (bodyStart + size > end) break;
+
+		frames.push({
+			id,
+			flags: [mp3[offset + 8], mp3[offset + 9]],
+			body: mp3.slice(bodyStart, bodyStart + size)
+		});
+		offset = bodyStart + size;
+	}
+
+	return { version, frames };
+}
+
+/**
+ * ID3v2 text frame body: UTF-16 with a byte order mark (valid in v2.3 and v2.4)
+ */
+function textFrameBody(text: string): number[] {
+	const body = [0x01, 0xff, 0xfe];
+	for (let i = 0; i < text.length; i++) {
+		const code = text.charCodeAt(i);
+		body.push(code & 0xff, code >> 8);
+	}
+	return body;
+}
+
+function latin1(text: string): number[] {
+	return [...Array.from(text, (char) => char.charCodeAt(0) & 0xff), 0x00];
+}
+
+/**
+ * Join byte runs; kept frames can be megabytes (cover art), too large to spread into arrays
+ */
+function concatBytes(parts: ArrayLike<number>[]): Uint8Array {
+	const output = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+	let offset = 0;
+	for (const part of parts) {
+		output.set(part, offset);
+		offset += part.length;
+	}
+	return output;
+}
+
+/**
+ * Build an ID3v2 tag with the track's text tags, one CHAP frame per section and an
+ * ordered table of contents listing them. Frames of the source file's tag (cover art,
+ * comments, track numbers...) are kept, except the ones written here.
+ * @param existing - The source tag from readId3Frames; its version is kept
+ */
+export function buildChapterTag(
+	metadata: TrackMetadata | undefined,
+	chapters: Chapter[],
+	existing: { version: 3 | 4; frames: Id3Frame[] } | null = null
+): Uint8Array {
+	const version = existing?.version ?? 3;
+	const frame = (
+		id: string,
+		body: ArrayLike<number>,
+		flags: [number, number] = [0x00, 0x00]
+	): Uint8Array =>
+		concatBytes([
+			Array.from(id, (char) => char.charCodeAt(0)),
+			version === 4 ? syncsafe(body.length) : uint32(body.length),
+			flags,
+			body
+		]);
+
+	const textFrames: [string, string | undefined][] = [
+		['TIT2', metadata?.title],
+		['TPE1', metadata?.artist],
+		['TALB', metadata?.album],
+		['TCON', metadata?.genre],
+		['TBPM', metadata?.bpm ? String(Math.round(metadata.bpm)) : undefined]
+	];
+	// Chapters of the source file would point at sections that no longer exist
+	const replaced = new Set(['CHAP', 'CTOC']);
+	const frames: Uint8Array[] = [];
+	for (const [id, text] of textFrames) {
+		if (text) {
+			frames.push(frame(id, textFrameBody(text)));
+			replaced.add(id);
+		}
+	}
+
+	for (const kept of existing?.frames ?? []) {
+		if (!replaced.has(kept.id)) {
+			frames.push(frame(kept.id, kept.body, kept.flags));
+		}
+	}
+
+	if (chapters.length > 0) {
+		const ids = chapters.map((_, index) => `chp${index + 1}`);
+		frames.push(
+			frame(
+				'CTOC',
+				concatBytes([
+					latin1('toc'),
+					[0x03], // Top-level, ordered
+					[Math.min(chapters.length, 255)],
+					ids.slice(0, 255).flatMap(latin1),
+					frame('TIT2', textFrameBody('Sections'))
+				])
+			)
+		);
+
+		chapters.forEach((chapter, index) => {
+			frames.push(
+				frame(
+					'CHAP',
+					concatBytes([
+						latin1(ids[index]),
+						uint32(Math.round(chapter.startTimeMs)),
+						uint32(Math.round(chapter.endTimeMs)),
+						// Byte offsets are unused; players seek by time
+						uint32(0xffffffff),
+						uint32(0xffffffff),
+						frame('TIT2', textFrameBody(chapter.title))
+					])
+				)
+			);
+		});
+	}
+
+	const body = concatBytes(frames);
+	const header = [
+		0x49,
+		0x44,
+		0x33, // "ID3"
+		version,
+		0x00,
+		0x00, // No flags
+		// The tag size is stored as a syncsafe integer (7 bits per byte)
+		...syncsafe(body.length)
+	];
+	return concatBytes([header, body]);
+}
+
+/**
+ * Whether the bytes look like an MP3 stream (ID3 tag or MPEG frame sync)
+ */
+export function isMp3Data(bytes: Uint8Array): boolean {
+	if (bytes[0] === 0x49 && bytes[1] === 0x44 && bytes[2] === 0x33) return true;
+	return bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0;
+}
+
+/**
+ * Replace the MP3's leading ID3v2 tag (if any) with the given tag
+ */
+export function replaceId3Tag(mp3: Uint8Array, tag: Uint8Array): Uint8Array {
+	let audioStart = 0;
+	if (mp3[0] === 0x49 && mp3[1] === 0x44 && mp3[2] === 0x33 && mp3.length >= 10) {
+		const size =
+			((mp3[6] & 0x7f) << 21) | ((mp3[7] & 0x7f) << 14) | ((mp3[8] & 0x7f) << 7) | (mp3[9] & 0x7f);
+		const hasFooter = (mp3[5] & 0x10) !== 0;
+		audioStart = Math.min(mp3.length, 10 + size + (hasFooter ? 10 : 0));
+	}
+
+	const output = new Uint8Array(tag.length + mp3.length - audioStart);
+	output.set(tag, 0);
+	output.set(mp3.subarray(audioStart), tag.length);
+	return output;
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import {
+	baseFilename,
+	findDjTrack,
+	firstBeatMs,
+	toBeatOffset,
+	toSessionTempoMap,
+	type DjTrack
+} from './djTrack';
+
+function track(filename: string, title = ''): DjTrack {
+	return { title, artist: '', filename, cues: [] };
+}
+
+describe('baseFilename', () => {
+	it('handles both kinds of slashes', () => {
+		expect(baseFilename('C:\\Music\\a.mp3')).toBe('a.mp3');
+		expect(baseFilename('/Users/me/b.mp3')).toBe('b.mp3');
+	});
+});
+
+describe('findDjTrack', () => {
+	it('matches stems extracted from a .vdjstems file to the original track', () => {
+		const tracks = [track('a.mp3'), track('Song.mp3')];
+
+		expect(
+			findDjTrack(tracks, { filename: 'Song (5 stems)', sourceFilename: 'Song.mp3.vdjstems' })
+		).toBe(tracks[1]);
+	});
+});
+
+describe('toBeatOffset', () => {
+	it('keeps the grid phase within half a beat', () => {
+		expect(toBeatOffset(250, 120)).toBe(250);
+		expect(toBeatOffset(1400, 120)).toBe(-100);
+	});
+});
+
+describe('toSessionTempoMap', () => {
+	it('counts tempo changes from the beat the session grid starts on', () => {
+		// First beat at 1400 ms: the session grid starts three beats earlier, at -100 ms
+		expect(toSessionTempoMap([{ startBeat: 8, bpm: 90 }], 1400, 120)).toEqual([
+			{ startBeat: 11, bpm: 90 }
+		]);
+		expect(toSessionTempoMap([{ startBeat: 8, bpm: 90 }], 250, 120)).toEqual([
+			{ startBeat: 8, bpm: 90 }
+		]);
+	});
+});
+
+describe('firstBeatMs', () => {
+	it('moves a negative offset to the first beat inside the track', () => {
+		expect(firstBeatMs(-100, 120)).toBe(400);
+		expect(firstBeatMs(100, 120)).toBe(100);
+	});
+});
@@ -0,0 +1,118 @@
+/**
+ * Track data read from DJ software collections (rekordbox, VirtualDJ):
+ * a beat grid plus cue points, matched to a session by file name or tags
+ */
+
+import type { Annotation, TempoSection, TrackMetadata } from '../types';
+import { labelsToAnnotations, type ImportedAnnotation } from './audacityLabels';
+import { stripExtension } from './download';
+
+export interface DjCue {
+	name: string;
+	startMs: number;
+	endMs?: number; // Set for loops
+	color?: string;
+}
+
+export interface DjTrack {
+	title: string;
+	artist: string;
+	filename: string; // File name without its folder
+	bpm?: number;
+	firstBeatMs?: number;
+	tempoMap?: TempoSection[]; // Tempo changes after the first beat, for grids with several tempos
+	cues: DjCue[];
+}
+
+/**
+ * File name at the end of a path or URL, with either kind of slash
+ */
+export function baseFilename(path: string | undefined): string {
+	return path?.split(/[\\/]/).pop() ?? '';
+}
+
+/**
+ * Find the collection track for a session: by file name first, then by title and artist tags.
+ * A collection with a single track is assumed to be the session's track.
+ */
+export function findDjTrack(
+	tracks: DjTrack[],
+	session: { filename: string; sourceFilename?: string; metadata?: TrackMetadata }
+): DjTrack | null {
+	const normalize = (text: string | undefined) => text?.trim().toLowerCase() ?? '';
+	// Stems extracted from a .vdjstems file are listed under the original track's name
+	const filenames = [session.sourceFilename?.replace(/\.vdjstems$/i, ''), session.filename]
+		.filter((name): name is string => !!name)
+		.map(normalize);
+	const baseNames = filenames.map((name) => stripExtension(name));
+	const title = normalize(session.metadata?.title);
+	const artist = normalize(session.metadata?.artist);
+
+	return (
+		tracks.find((track) => filenames.includes(normalize(track.filename))) ??
+		tracks.find((track) => baseNames.includes(stripExtension(normalize(track.filename)))) ??
+		tracks.find(
+			(track) =>
+				title !== '' &&
+				normalize(track.title) === title &&
+				(artist === '' || normalize(track.artist) === artist)
+		) ??
+		tracks.find((track) => baseNames.includes(normalize(track.title))) ??
+		(tracks.length === 1 ? tracks[0] : null)
+	);
+}
+
+/**
+ * The session beat offset for a grid whose first beat is at firstBeatMs.
+ * Sessions store the grid's phase, kept within half a beat of the start of the track.
+ */
+export function toBeatOffset(firstBeatMs: number, bpm: number): number {
+	const beatMs = 60000 / bpm;
+	let offset = ((firstBeatMs % beatMs) + beatMs) % beatMs;
+	if (offset > beatMs / 2) offset -= beatMs;
+	return Math.round(offset);
+}
+
+/**
+ * A track's tempo changes counted from the session's first beat, which toBeatOffset
+ * moves to within half a beat of the start of the track
+ */
+export function toSessionTempoMap(
+	tempoMap: TempoSection[],
+	firstBeatMs: number,
+	bpm: number
+): TempoSection[] {
+	const beatsBefore = Math.round((firstBeatMs - toBeatOffset(firstBeatMs, bpm)) / (60000 / bpm));
+	return tempoMap.map((section) => ({
+		startBeat: section.startBeat + beatsBefore,
+		bpm: section.bpm
+	}));
+}
+
+/**
+ * Time of the first beat at or after the start of the track, for formats
+ * whose grids cannot start earlier
+ */
+export function firstBeatMs(beatOffset: number, bpm: number): number {
+	return beatOffset < 0 && bpm > 0 ? beatOffset + 60000 / bpm : beatOffset;
+}
+
+/**
+ * Annotations for a track's cues: loops become ranges and other cues points.
+ * Cues without a colour get label group colours.
+ */
+export function djCuesToAnnotations(
+	cues: DjCue[],
+	existing: Pick<Annotation, 'label' | 'color'>[] = []
+): ImportedAnnotation[] {
+	const labels = cues.map((cue) => ({
+		startTimeMs: cue.startMs,
+		endTimeMs: cue.endMs ?? cue.startMs,
+		label: cue.name
+	}));
+
+	return labelsToAnnotations(labels, existing).map((annotation, index) => {
+		const color = cues[index].color;
+		return color ? { ...annotation, color } : annotation;
+	});
+}
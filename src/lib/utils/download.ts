@@ -0,0 +1,22 @@
+/**
+ * Trigger a browser download for an in-memory blob
+ */
+export function triggerDownload(blob: Blob, filename: string): void {
+	const url = URL.createObjectURL(blob);
+	const link = document.createElement('a');
+	link.href = url;
+	link.download = filename;
+
+	document.body.appendChild(link);
+	link.click();
+
+	document.body.removeChild(link);
+	URL.revokeObjectURL(url);
+}
+
+/**
+ * Strip the extension from a filename ("song.mp3" -> "song")
+ */
+export function stripExtension(filename: string): string {
+	return filename.replace(/\.[^/.]+$/, '');
+}
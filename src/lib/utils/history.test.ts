@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import {
+	createHistory,
+	pushEntry,
+	undoEntry,
+	redoEntry,
+	MAX_HISTORY_ENTRIES,
+	type HistoryEntry
+} from './history';
+
+function entry(label: string, before: number, after: number, timestamp = 0): HistoryEntry<number> {
+	return { label, before, after, timestamp };
+}
+
+describe('history', () => {
+	it('undoes and redoes entries in order', () => {
+		let state = createHistory<number>();
+		state = pushEntry(state, entry('a', 0, 1));
+		state = pushEntry(state, entry('b', 1, 2));
+
+		const first = undoEntry(state)!;
+		expect(first.entry.label).toBe('b');
+		const second = undoEntry(first.state)!;
+		expect(second.entry.label).toBe('a');
+		expect(undoEntry(second.state)).toBeNull();
+
+		const redone = redoEntry(second.state)!;
+		expect(redone.entry.label).toBe('a');
+		expect(redone.state.future.map((e) => e.label)).toEqual(['b']);
+	});
+
+	it('clears the redo stack when a new edit is recorded', () => {
+		let state = createHistory<number>();
+		state = pushEntry(state, entry('a', 0, 1));
+		state = undoEntry(state)!.state;
+		state = pushEntry(state, entry('b', 0, 5));
+
+		expect(redoEntry(state)).toBeNull();
+		expect(state.past.map((e) => e.label)).toEqual(['b']);
+	});
+
+	it('merges rapid repeats of the same edit', () => {
+		let state = createHistory<number>();
+		state = pushEntry(state, entry('bpm', 120, 1, 1000), 1000);
+		state = pushEntry(state, entry('bpm', 1, 12, 1500), 1000);
+		state = pushEntry(state, entry('bpm', 12, 128, 2000), 1000);
+
+		expect(state.past).toHaveLength(1);
+		expect(state.past[0].before).toBe(120);
+		expect(state.past[0].after).toBe(128);
+
+		state = pushEntry(state, entry('bpm', 128, 130, 5000), 1000);
+		expect(state.past).toHaveLength(2);
+	});
+
+	it('caps the number of entries', () => {
+		let state = createHistory<number>();
+		for (let i = 0; i < MAX_HISTORY_ENTRIES + 10; i++) {
+			state = pushEntry(state, entry(`edit ${i}`, i, i + 1));
+		}
+
+		expect(state.past).toHaveLength(MAX_HISTORY_ENTRIES);
+		expect(state.past[0].label).toBe('edit 10');
+	});
+});
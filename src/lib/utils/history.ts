@@ -0,0 +1,78 @@
+/**
+ * Undo/redo history
+ * Each entry is a command described by the state it changed: `before` is applied to undo it,
+ * `after` to redo it. Entries are plain data so a history can be serialized and restored.
+ */
+
+export interface HistoryEntry<T> {
+	label: string; // Human readable description, e.g. "Rename group"
+	before: T;
+	after: T;
+	timestamp: number; // ms since epoch, used to merge rapid repeats of the same edit
+}
+
+export interface HistoryState<T> {
+	past: HistoryEntry<T>[];
+	future: HistoryEntry<T>[];
+}
+
+export const MAX_HISTORY_ENTRIES = 100;
+
+export function createHistory<T>(): HistoryState<T> {
+	return { past: [], future: [] };
+}
+
+/**
+ * Record a new edit. Clears the redo stack.
+ * When `mergeWithinMs` is given and the previous entry has the same label and was recorded
+ * within that window, the two are merged into one entry (e.g. typing a BPM digit by digit).
+ */
+export function pushEntry<T>(
+	state: HistoryState<T>,
+	entry: HistoryEntry<T>,
+	mergeWithinMs = 0
+): HistoryState<T> {
+	const previous = state.past[state.past.length - 1];
+	if (
+		previous &&
+		mergeWithinMs > 0 &&
+		previous.label === entry.label &&
+		entry.timestamp - previous.timestamp <= mergeWithinMs
+	) {
+		const merged = { ...entry, before: previous.before };
+		return { past: [...state.past.slice(0, -1), merged], future: [] };
+	}
+
+	const past = [...state.past, entry].slice(-MAX_HISTORY_ENTRIES);
+	return { past, future: [] };
+}
+
+/**
+ * Step back one entry. Returns null when there is nothing to undo.
+ */
+export function undoEntry<T>(
+	state: HistoryState<T>
+): { state: HistoryState<T>; entry: HistoryEntry<T> } | null {
+	const entry = state.past[state.past.length - 1];
+	if (!entry) return null;
+
+	return {
+		state: { past: state.past.slice(0, -1), future: [entry, ...state.future] },
+		entry
+	};
+}
+
+/**
+ * Step forward one entry. Returns null when there is nothing to redo.
+ */
+export function redoEntry<T>(
+	state: HistoryState<T>
+): { state: HistoryState<T>; entry: HistoryEntry<T> } | null {
+	const entry = state.future[0];
+	if (!entry) return null;
+
+	return {
+		state: { past: [...state.past, entry], future: state.future.slice(1) },
+		entry
+	};
+}
@@ -1,3 +1,5 @@
+import type { LoopMarker } from '../types';
+
 export interface LoopMarkerPair {
 	markerA: number; // fraction 0-1
 	markerB: number; // fraction 0-1
@@ -43,3 +45,65 @@ export function fractionRangeToTimeRange(
 		end: chunkTime.startTime + range.end * duration
 	};
 }
+
+export interface ChunkSelection {
+	loopingChunks: number[];
+	loopMarkers: LoopMarker[];
+}
+
+// Overlaps shorter than this (in seconds, or as a fraction of a chunk) are rounding noise
+const REMAP_EPSILON = 1e-6;
+
+/**
+ * Move a chunk selection onto another row layout, keeping the audio it covers.
+ * Markers on chunks outside the selection have no audio to follow and are dropped.
+ * @param fromSpan - Audible time range of a chunk in the layout the selection was made in
+ * @param toSpan - Audible time range of a chunk in the target layout
+ * @param toChunkAt - Chunk of the target layout that contains a time
+ */
+export function remapChunkSelection(
+	selection: ChunkSelection,
+	fromSpan: (chunkIndex: number) => TimeRange,
+	toSpan: (chunkIndex: number) => TimeRange,
+	toChunkAt: (time: number) => number
+): ChunkSelection {
+	const markers = new Map(selection.loopMarkers.map((marker) => [marker.chunkIndex, marker]));
+	const ranges = new Map<number, EffectiveRange>();
+
+	for (const chunkIndex of selection.loopingChunks) {
+		const { markerA, markerB } = getMarkerPosition(chunkIndex, markers);
+		const { start, end } = fractionRangeToTimeRange(
+			getEffectiveRange(markerA, markerB),
+			fromSpan(chunkIndex)
+		);
+
+		for (let target = toChunkAt(start); ; target++) {
+			const span = toSpan(target);
+			if (span.startTime >= end - REMAP_EPSILON) break;
+
+			const length = span.endTime - span.startTime;
+			if (length <= REMAP_EPSILON) continue;
+			const from = (Math.max(start, span.startTime) - span.startTime) / length;
+			const to = (Math.min(end, span.endTime) - span.startTime) / length;
+			if (to - from <= REMAP_EPSILON) continue;
+
+			// Pieces of neighbouring chunks that land in one target chunk join up
+			const existing = ranges.get(target);
+			ranges.set(target, {
+				start: Math.min(existing?.start ?? from, from),
+				end: Math.max(existing?.end ?? to, to)
+			});
+		}
+	}
+
+	const loopingChunks = [...ranges.keys()].sort((a, b) => a - b);
+	const loopMarkers = loopingChunks
+		.map((chunkIndex) => ({ chunkIndex, range: ranges.get(chunkIndex)! }))
+		.filter(({ range }) => range.start > REMAP_EPSILON || range.end < 1 - REMAP_EPSILON)
+		.map(({ chunkIndex, range }) => ({
+			chunkIndex,
+			markerA: clampFraction(range.start),
+			markerB: clampFraction(range.end)
+		}));
+	return { loopingChunks, loopMarkers };
+}
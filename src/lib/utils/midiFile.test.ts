@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { encodeVariableLength, formatMidiFile, parseMidiMarkers } from './midiFile';
+
+const session = {
+	filename: 'song.mp3',
+	bpm: 120,
+	beatOffset: 300,
+	duration: 4,
+	annotations: [
+		{ id: 'b', startTimeMs: 2300, endTimeMs: 3300, label: 'Chorus', color: '#fff' },
+		{ id: 'a', startTimeMs: 100, endTimeMs: 100, label: 'Pickup', color: '#fff', isPoint: true }
+	]
+};
+
+describe('encodeVariableLength', () => {
+	it('encodes 7 bits per byte with continuation flags', () => {
+		expect(encodeVariableLength(0)).toEqual([0x00]);
+		expect(encodeVariableLength(0x7f)).toEqual([0x7f]);
+		expect(encodeVariableLength(0x80)).toEqual([0x81, 0x00]);
+		expect(encodeVariableLength(0x0fffffff)).toEqual([0xff, 0xff, 0xff, 0x7f]);
+	});
+});
+
+describe('formatMidiFile', () => {
+	it('writes a format 1 file with a lead-in bar before the first beat', () => {
+		const bytes = formatMidiFile(session);
+		const text = String.fromCharCode(...bytes.subarray(0, 4));
+
+		expect(text).toBe('MThd');
+		expect(bytes[9]).toBe(1); // format 1
+		expect(bytes[11]).toBe(1); // conductor track only
+		// Lead-in tempo: one quarter note lasting 300ms
+		const tempo = bytes.findIndex((b, i) => b === 0xff && bytes[i + 1] === 0x51);
+		expect(Array.from(bytes.subarray(tempo + 3, tempo + 6))).toEqual([0x04, 0x93, 0xe0]);
+	});
+
+	it('adds a click track with a note on and off per beat', () => {
+		const bytes = formatMidiFile(session, { clickTrack: true });
+		expect(bytes[11]).toBe(2);
+
+		// Beats at 300, 800, ..., 3800ms
+		const noteOns = bytes.filter(
+			(b, i) => b === 0x99 && (bytes[i + 1] === 76 || bytes[i + 1] === 77)
+		);
+		expect(noteOns.length).toBe(8);
+	});
+});
+
+describe('parseMidiMarkers', () => {
+	it('round-trips markers and ranges through the tempo map', () => {
+		expect(parseMidiMarkers(formatMidiFile(session, { clickTrack: true }))).toEqual([
+			{ startTimeMs: 100, endTimeMs: 100, label: 'Pickup' },
+			{ startTimeMs: 2300, endTimeMs: 3300, label: 'Chorus' }
+		]);
+	});
+
+	it('round-trips markers placed after a tempo change', () => {
+		// 120 BPM until beat 2 (1300 ms), then 60 BPM
+		const bytes = formatMidiFile({ ...session, tempoMap: [{ startBeat: 2, bpm: 60 }] });
+		expect(parseMidiMarkers(bytes)).toEqual([
+			{ startTimeMs: 100, endTimeMs: 100, label: 'Pickup' },
+			{ startTimeMs: 2300, endTimeMs: 3300, label: 'Chorus' }
+		]);
+		const tempos = Array.from(bytes).filter((b, i) => b === 0xff && bytes[i + 1] === 0x51);
+		expect(tempos.length).toBe(3); // lead-in, starting tempo, change
+	});
+
+	it('reads markers after channel events that use running status', () => {
+		const track = [
+			...[0x00, 0x90, 60, 100], // note on
+			...[0x60, 61, 100], // running status note on, 96 ticks later
+			...[0x60, 0xff, 0x06, 0x02, 0x48, 0x69], // marker "Hi" at tick 192
+			...[0x00, 0xff, 0x2f, 0x00]
+		];
+		const bytes = new Uint8Array([
+			...[0x4d, 0x54, 0x68, 0x64, 0, 0, 0, 6, 0, 0, 0, 1, 0, 96],
+			...[0x4d, 0x54, 0x72, 0x6b, 0, 0, 0, track.length],
+			...track
+		]);
+
+		// 192 ticks at 96 per quarter and the default 120 BPM: two beats, 1 second
+		expect(parseMidiMarkers(bytes)).toEqual([{ startTimeMs: 1000, endTimeMs: 1000, label: 'Hi' }]);
+	});
+
+	it('rejects files that are not MIDI', () => {
+		expect(() => parseMidiMarkers(new Uint8Array([1, 2, 3]))).toThrow('not a standard MIDI file');
+	});
+});
@@ -0,0 +1,299 @@
+/**
+ * Standard MIDI file export of the tempo map and annotation markers, and marker import
+ * Exported files start a bar on the first beat of the session's grid: when the music starts
+ * later than the file, a one-beat lead-in bar (in 1/4, with its own tempo) spans the gap,
+ * so DAW bars line up with the music.
+ */
+
+import type { Annotation, TempoSection } from '../types';
+import type { AudacityLabel } from './audacityLabels';
+import { firstBeatMs } from './djTrack';
+import { beatsToSeconds, secondsToBeats, startGridAtBeat, type TempoGrid } from './tempoMap';
+
+export const TICKS_PER_QUARTER = 480;
+
+const DEFAULT_MICROSECONDS_PER_QUARTER = 500000; // 120 BPM, the MIDI default
+
+// General MIDI percussion (channel 10): wood blocks for the click track
+const CLICK_CHANNEL = 9;
+const CLICK_DOWNBEAT_NOTE = 76;
+const CLICK_BEAT_NOTE = 77;
+const CLICK_NOTE_TICKS = TICKS_PER_QUARTER / 4;
+const BEATS_PER_BAR = 4;
+
+const META_TRACK_NAME = 0x03;
+const META_MARKER = 0x06;
+const META_CUE_POINT = 0x07;
+const META_END_OF_TRACK = 0x2f;
+const META_TEMPO = 0x51;
+const META_TIME_SIGNATURE = 0x58;
+
+interface MidiEvent {
+	tick: number;
+	data: number[];
+}
+
+/**
+ * Encode a number as a MIDI variable-length quantity
+ */
+export function encodeVariableLength(value: number): number[] {
+	const bytes = [value & 0x7f];
+	let rest = value >>> 7;
+	while (rest > 0) {
+		bytes.unshift((rest & 0x7f) | 0x80);
+		rest >>>= 7;
+	}
+	return bytes;
+}
+
+function metaEvent(tick: number, type: number, payload: number[]): MidiEvent {
+	return { tick, data: [0xff, type, ...encodeVariableLength(payload.length), ...payload] };
+}
+
+function textEvent(tick: number, type: number, text: string): MidiEvent {
+	return metaEvent(tick, type, Array.from(new TextEncoder().encode(text)));
+}
+
+function tempoEvent(tick: number, microsecondsPerQuarter: number): MidiEvent {
+	const value = Math.max(1, Math.min(0xffffff, Math.round(microsecondsPerQuarter)));
+	return metaEvent(tick, META_TEMPO, [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff]);
+}
+
+function timeSignatureEvent(tick: number, numerator: number, denominator: number): MidiEvent {
+	// Denominator is stored as a power of two; 24 MIDI clocks per click, 8 32nd notes per quarter
+	return metaEvent(tick, META_TIME_SIGNATURE, [numerator, Math.log2(denominator), 24, 8]);
+}
+
+function uint32(value: number): number[] {
+	return [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+}
+
+function chunk(type: string, body: number[]): number[] {
+	return [...Array.from(type, (char) => char.charCodeAt(0)), ...uint32(body.length), ...body];
+}
+
+/**
+ * Serialize events as a track chunk. Events at the same tick keep their order.
+ */
+function trackChunk(events: MidiEvent[]): number[] {
+	const sorted = events.map((event, index) => ({ event, index }));
+	sorted.sort((a, b) => a.event.tick - b.event.tick || a.index - b.index);
+
+	const body: number[] = [];
+	let lastTick = 0;
+	for (const { event } of sorted) {
+		body.push(...encodeVariableLength(event.tick - lastTick), ...event.data);
+		lastTick = event.tick;
+	}
+	body.push(0x00, 0xff, META_END_OF_TRACK, 0x00);
+	return chunk('MTrk', body);
+}
+
+/**
+ * Converts audio times to ticks of the exported tempo map
+ */
+function createTickMap(grid: TempoGrid, leadInMs: number): (ms: number) => number {
+	return (ms) => {
+		if (leadInMs > 0 && ms < leadInMs) return Math.round((ms / leadInMs) * TICKS_PER_QUARTER);
+		const leadInTicks = leadInMs > 0 ? TICKS_PER_QUARTER : 0;
+		return (
+			leadInTicks + Math.round(secondsToBeats((ms - leadInMs) / 1000, grid) * TICKS_PER_QUARTER)
+		);
+	};
+}
+
+export interface MidiExportOptions {
+	clickTrack?: boolean; // Add a percussion note on every beat, accenting the first beat of each bar
+}
+
+/**
+ * Build a format 1 MIDI file: a conductor track with the tempo map, time signature and one marker
+ * per annotation (ranges also get a cue point with the same text where they end),
+ * plus an optional click track
+ */
+export function formatMidiFile(
+	session: {
+		filename: string;
+		bpm: number;
+		beatOffset: number;
+		tempoMap?: TempoSection[];
+		duration?: number;
+		annotations: Annotation[];
+	},
+	options: MidiExportOptions = {}
+): Uint8Array {
+	const bpm = session.bpm > 0 ? session.bpm : 120;
+	const leadInMs = Math.round(firstBeatMs(session.beatOffset, bpm));
+	// Bar 1 starts on the first beat inside the track, so count the tempo map from there
+	const grid = startGridAtBeat({ bpm, tempoMap: session.tempoMap }, session.beatOffset < 0 ? 1 : 0);
+	const toTick = createTickMap(grid, leadInMs);
+	const musicStartTick = leadInMs > 0 ? TICKS_PER_QUARTER : 0;
+
+	const conductor: MidiEvent[] = [textEvent(0, META_TRACK_NAME, session.filename)];
+	if (leadInMs > 0) {
+		conductor.push(tempoEvent(0, leadInMs * 1000), timeSignatureEvent(0, 1, 4));
+	}
+	conductor.push(
+		tempoEvent(musicStartTick, 60000000 / grid.bpm),
+		timeSignatureEvent(musicStartTick, BEATS_PER_BAR, 4)
+	);
+	for (const section of grid.tempoMap ?? []) {
+		conductor.push(
+			tempoEvent(musicStartTick + section.startBeat * TICKS_PER_QUARTER, 60000000 / section.bpm)
+		);
+	}
+
+	for (const annotation of [...session.annotations].sort((a, b) => a.startTimeMs - b.startTimeMs)) {
+		conductor.push(textEvent(toTick(annotation.startTimeMs), META_MARKER, annotation.label));
+		if (!annotation.isPoint && annotation.endTimeMs > annotation.startTimeMs) {
+			conductor.push(textEvent(toTick(annotation.endTimeMs), META_CUE_POINT, annotation.label));
+		}
+	}
+
+	const tracks = [trackChunk(conductor)];
+
+	if (options.clickTrack && session.duration) {
+		const click: MidiEvent[] = [textEvent(0, META_TRACK_NAME, 'Click')];
+		const durationMs = session.duration * 1000;
+		for (let beat = 0; leadInMs + beatsToSeconds(beat, grid) * 1000 < durationMs; beat++) {
+			const tick = musicStartTick + beat * TICKS_PER_QUARTER;
+			const note = beat % BEATS_PER_BAR === 0 ? CLICK_DOWNBEAT_NOTE : CLICK_BEAT_NOTE;
+			const velocity = beat % BEATS_PER_BAR === 0 ? 110 : 80;
+			click.push(
+				{ tick, data: [0x90 | CLICK_CHANNEL, note, velocity] },
+				{ tick: tick + CLICK_NOTE_TICKS, data: [0x80 | CLICK_CHANNEL, note, 0] }
+			);
+		}
+		tracks.push(trackChunk(click));
+	}
+
+	const header = chunk('MThd', [
+		0x00,
+		0x01, // Format 1: simultaneous tracks
+		(tracks.length >> 8) & 0xff,
+		tracks.length & 0xff,
+		(TICKS_PER_QUARTER >> 8) & 0xff,
+		TICKS_PER_QUARTER & 0xff
+	]);
+
+	return new Uint8Array([...header, ...tracks.flat()]);
+}
+
+interface ParsedMetaEvent {
+	tick: number;
+	type: number;
+	data: Uint8Array;
+}
+
+/**
+ * Read the meta events of every track, with absolute tick positions
+ */
+function readMetaEvents(bytes: Uint8Array): { ticksPerQuarter: number; events: ParsedMetaEvent[] } {
+	const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+	const chunkType = (offset: number) => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+
+	if (bytes.length < 14 || chunkType(0) !== 'MThd') {
+		throw new Error('File is not a standard MIDI file');
+	}
+	const division = view.getUint16(12);
+	if (division & 0x8000) {
+		throw new Error('MIDI files with SMPTE timing are not supported');
+	}
+
+	const events: ParsedMetaEvent[] = [];
+	let offset = 8 + view.getUint32(4);
+
+	while (offset + 8 <= bytes.length) {
+		const type = chunkType(offset);
+		const length = view.getUint32(offset + 4);
+		const start = offset + 8;
+		const end = Math.min(start + length, bytes.length);
+		offset = start + length;
+		if (type !== 'MTrk') continue;
+
+		let position = start;
+		let tick = 0;
+		let runningStatus = 0;
+		const readVariableLength = () => {
+			let value = 0;
+			let byte: number;
+			do {
+				if (position >= end) throw new Error('MIDI track ends unexpectedly');
+				byte = bytes[position++];
+				value = value * 128 + (byte & 0x7f);
+			} while (byte & 0x80);
+			return value;
+		};
+
+		while (position < end) {
+			tick += readVariableLength();
+			let status = bytes[position];
+			if (status & 0x80) {
+				position++;
+			} else if (runningStatus) {
+				status = runningStatus;
+			} else {
+				throw new Error('Invalid MIDI event');
+			}
+
+			if (status === 0xff) {
+				const metaType = bytes[position++];
+				const length = readVariableLength();
+				events.push({ tick, type: metaType, data: bytes.subarray(position, position + length) });
+				position += length;
+				if (metaType === META_END_OF_TRACK) break;
+			} else if (status === 0xf0 || status === 0xf7) {
+				position += readVariableLength();
+			} else {
+				runningStatus = status;
+				const kind = status & 0xf0;
+				position += kind === 0xc0 || kind === 0xd0 ? 1 : 2;
+			}
+		}
+	}
+
+	return { ticksPerQuarter: division, events };
+}
+
+/**
+ * Markers of a MIDI file as labels in audio time, following the file's tempo changes.
+ * A cue point with the same text as an earlier marker ends that marker's range.
+ * @throws Error if the file is not a readable standard MIDI file
+ */
+export function parseMidiMarkers(bytes: Uint8Array): AudacityLabel[] {
+	const { ticksPerQuarter, events } = readMetaEvents(bytes);
+	events.sort((a, b) => a.tick - b.tick);
+
+	// Tempo changes apply to every track, so build one map from all of them
+	const tempos = events.filter((event) => event.type === META_TEMPO && event.data.length === 3);
+	const toMs = (tick: number) => {
+		let ms = 0;
+		let lastTick = 0;
+		let microsecondsPerQuarter = DEFAULT_MICROSECONDS_PER_QUARTER;
+		for (const tempo of tempos) {
+			if (tempo.tick >= tick) break;
+			ms += ((tempo.tick - lastTick) / ticksPerQuarter) * (microsecondsPerQuarter / 1000);
+			lastTick = tempo.tick;
+			microsecondsPerQuarter = (tempo.data[0] << 16) | (tempo.data[1] << 8) | tempo.data[2];
+		}
+		return Math.round(ms + ((tick - lastTick) / ticksPerQuarter) * (microsecondsPerQuarter / 1000));
+	};
+
+	const decoder = new TextDecoder();
+	const labels: AudacityLabel[] = [];
+	for (const event of events) {
+		const text = decoder.decode(event.data).trim();
+		if (event.type === META_MARKER) {
+			const timeMs = toMs(event.tick);
+			labels.push({ startTimeMs: timeMs, endTimeMs: timeMs, label: text });
+		} else if (event.type === META_CUE_POINT) {
+			// Close the most recent open marker with this text
+			const open = [...labels]
+				.reverse()
+				.find((label) => label.label === text && label.endTimeMs === label.startTimeMs);
+			if (open) open.endTimeMs = Math.max(open.startTimeMs, toMs(event.tick));
+		}
+	}
+
+	return labels;
+}
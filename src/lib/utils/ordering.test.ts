@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { orderById, moveById } from './ordering';
+import type { SavedLoop } from '../types';
+
+function makeLoop(id: string): SavedLoop {
+	return {
+		id,
+		name: id,
+		segments: [{ start: 0, end: 1 }],
+		loopingChunks: [0],
+		loopMarkers: [],
+		created: '2026-01-01T00:00:00.000Z'
+	};
+}
+
+const loops = ['a', 'b', 'c'].map(makeLoop);
+const ids = (list: SavedLoop[]) => list.map((loop) => loop.id);
+
+describe('orderById', () => {
+	it('follows the given order', () => {
+		expect(ids(orderById(loops, ['c', 'a', 'b']))).toEqual(['c', 'a', 'b']);
+	});
+
+	it('keeps items missing from the order at the end', () => {
+		expect(ids(orderById(loops, ['b']))).toEqual(['b', 'a', 'c']);
+	});
+});
+
+describe('moveById', () => {
+	it('moves an item one place up or down', () => {
+		expect(moveById(loops, 'b', -1)).toEqual(['b', 'a', 'c']);
+		expect(moveById(loops, 'b', 1)).toEqual(['a', 'c', 'b']);
+	});
+
+	it('stays within the list', () => {
+		expect(moveById(loops, 'a', -1)).toEqual(['a', 'b', 'c']);
+		expect(moveById(loops, 'c', 1)).toEqual(['a', 'b', 'c']);
+	});
+});
@@ -0,0 +1,28 @@
+/**
+ * Ordering helpers for user-sorted lists: saved loops and annotation layers
+ */
+
+/**
+ * Arrange items in the given ID order. Items missing from the list keep their
+ * relative order after the listed ones, so a stale list never drops an item.
+ */
+export function orderById<T extends { id: string }>(items: T[], ids: string[]): T[] {
+	const position = new Map(ids.map((id, index) => [id, index]));
+	return [...items].sort(
+		(a, b) => (position.get(a.id) ?? ids.length) - (position.get(b.id) ?? ids.length)
+	);
+}
+
+/**
+ * IDs after moving one item up (-1) or down (+1), clamped to the list
+ */
+export function moveById(items: { id: string }[], id: string, offset: number): string[] {
+	const ids = items.map((item) => item.id);
+	const from = ids.indexOf(id);
+	if (from < 0) return ids;
+
+	const to = Math.max(0, Math.min(ids.length - 1, from + offset));
+	ids.splice(from, 1);
+	ids.splice(to, 0, id);
+	return ids;
+}
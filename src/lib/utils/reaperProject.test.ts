@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import {
+	createReaperExport,
+	detectAudioFormat,
+	formatReaperProject,
+	getReaperAudioStartMs
+} from './reaperProject';
+import { readZip } from './zipArchive';
+import type { Stem } from '../types';
+
+const session = {
+	filename: 'Song (2 stems)',
+	bpm: 120,
+	beatOffset: 250,
+	duration: 180,
+	annotations: [
+		{
+			id: 'b',
+			startTimeMs: 10000,
+			endTimeMs: 10000,
+			label: 'Hit "it"',
+			color: '#ff0000',
+			isPoint: true
+		},
+		{ id: 'a', startTimeMs: 1000, endTimeMs: 5000, label: 'Intro', color: '#0000ff' }
+	]
+};
+
+describe('getReaperAudioStartMs', () => {
+	it('places the first beat on bar 2', () => {
+		// One 4/4 bar at 120 BPM lasts 2000ms
+		expect(getReaperAudioStartMs(120, 250)).toBe(1750);
+		expect(getReaperAudioStartMs(120, -100)).toBe(1600);
+	});
+});
+
+describe('detectAudioFormat', () => {
+	it('recognises common containers and falls back to MP3', () => {
+		const bytes = (text: string) => new TextEncoder().encode(text);
+		expect(detectAudioFormat(bytes('RIFF....WAVE')).sourceType).toBe('WAVE');
+		expect(detectAudioFormat(bytes('fLaC')).extension).toBe('flac');
+		expect(detectAudioFormat(bytes('ID3\x04')).extension).toBe('mp3');
+	});
+});
+
+describe('formatReaperProject', () => {
+	it('writes tempo, regions, markers and muted tracks', () => {
+		const project = formatReaperProject(
+			session,
+			[
+				{ name: 'Vocals', file: 'Media/1-Vocals.mp3', sourceType: 'MP3', muted: false },
+				{ name: 'Drums', file: 'Media/2-Drums.mp3', sourceType: 'MP3', muted: true }
+			],
+			180
+		);
+
+		expect(project).toContain('TEMPO 120 4 4');
+		expect(project).toContain(`MARKER 1 2.75 "Intro" 1 ${0x1ff0000}`);
+		expect(project).toContain('MARKER 1 6.75 "" 1');
+		expect(project).toContain(`MARKER 2 11.75 'Hit "it"' 0 ${0x10000ff}`);
+		expect(project).toContain('MUTESOLO 1 0 0');
+		expect(project).toContain('POSITION 1.75');
+		expect(project).toContain('FILE "Media/2-Drums.mp3"');
+		expect(project.trim().endsWith('>')).toBe(true);
+		expect(project).not.toContain('TEMPOENVEX');
+	});
+
+	it('writes tempo changes as square tempo envelope points', () => {
+		const project = formatReaperProject(
+			{ ...session, tempoMap: [{ startBeat: 8, bpm: 90 }] },
+			[],
+			180
+		);
+
+		// Bar 2 starts at 2 s; 8 beats at 120 BPM later is 6 s
+		expect(project).toContain('<TEMPOENVEX');
+		expect(project).toContain('PT 0 120 1');
+		expect(project).toContain('PT 6 90 1');
+	});
+});
+
+describe('createReaperExport', () => {
+	it('zips the project with one media file per stem', async () => {
+		const stems: Stem[] = [
+			{
+				id: '1',
+				filename: 'Vocals.wav',
+				mp3Blob: new Uint8Array([0x49, 0x44, 0x33, 0x04]).buffer, // ID3
+				enabled: true
+			},
+			{
+				id: '2',
+				filename: 'Drums.mp3',
+				mp3Blob: new ArrayBuffer(4),
+				enabled: false,
+				downloadBlob: new Blob(['RIFFdata'])
+			}
+		];
+
+		const zip = await createReaperExport({ ...session, stems });
+		const names = readZip(await zip.arrayBuffer()).map((entry) => entry.name);
+
+		expect(names).toEqual([
+			'Song (2 stems)/Song (2 stems).rpp',
+			'Song (2 stems)/Media/1-Vocals.mp3',
+			'Song (2 stems)/Media/2-Drums.wav'
+		]);
+	});
+
+	it('requires stems and a known duration', async () => {
+		await expect(createReaperExport({ ...session, stems: [] })).rejects.toThrow('stem session');
+	});
+});
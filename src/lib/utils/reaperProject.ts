@@ -0,0 +1,214 @@
+/**
+ * REAPER project export for stem sessions
+ * The export is a ZIP holding a .rpp project and a Media folder with one file per stem.
+ * Every stem becomes a track (disabled stems are muted), duration annotations become
+ * regions and point annotations markers. The project starts with a count-in bar: the
+ * audio is placed so the first beat of the session's grid falls on bar 2. Tempo changes
+ * become points of the project's tempo envelope.
+ */
+
+import type { Annotation, Stem, TempoSection } from '../types';
+import { firstBeatMs } from './djTrack';
+import { stripExtension } from './download';
+import { beatsToSeconds, startGridAtBeat } from './tempoMap';
+import { createZip, type ZipEntry } from './zipArchive';
+
+const BEATS_PER_BAR = 4;
+
+export interface AudioFormat {
+	extension: string;
+	sourceType: string; // REAPER <SOURCE> type
+}
+
+/**
+ * Identify an audio payload by its leading bytes. Stored audio may have been transcoded
+ * on import, so the original file name's extension is not reliable.
+ */
+export function detectAudioFormat(bytes: Uint8Array): AudioFormat {
+	const tag = String.fromCharCode(...bytes.subarray(0, 4));
+	if (tag === 'RIFF') return { extension: 'wav', sourceType: 'WAVE' };
+	if (tag === 'FORM') return { extension: 'aiff', sourceType: 'WAVE' };
+	if (tag === 'fLaC') return { extension: 'flac', sourceType: 'FLAC' };
+	if (tag === 'OggS') return { extension: 'ogg', sourceType: 'VORBIS' };
+	return { extension: 'mp3', sourceType: 'MP3' };
+}
+
+/**
+ * REAPER colours are 0xBBGGRR with a flag bit marking them as set
+ */
+function toReaperColor(hex: string | undefined): number {
+	const match = /^#?([0-9a-f]{6})$/i.exec(hex?.trim() ?? '');
+	if (!match) return 0;
+	const value = parseInt(match[1], 16);
+	const red = (value >> 16) & 0xff;
+	const green = (value >> 8) & 0xff;
+	const blue = value & 0xff;
+	return 0x1000000 | (blue << 16) | (green << 8) | red;
+}
+
+/**
+ * Quote a string for an .rpp line. REAPER has no escape sequences; it picks a quote
+ * character the text does not contain.
+ */
+function quote(text: string): string {
+	const singleLine = text.replace(/[\r\n]+/g, ' ');
+	if (!singleLine.includes('"')) return `"${singleLine}"`;
+	if (!singleLine.includes("'")) return `'${singleLine}'`;
+	if (!singleLine.includes('`')) return `\`${singleLine}\``;
+	return `"${singleLine.replace(/"/g, "'")}"`;
+}
+
+function seconds(ms: number): string {
+	return (ms / 1000).toFixed(6).replace(/\.?0+$/, '');
+}
+
+export interface ReaperTrack {
+	name: string;
+	file: string; // Path relative to the project file
+	sourceType: string;
+	muted: boolean;
+	color?: string;
+}
+
+/**
+ * Time at which the audio starts in the exported project, so the first beat lands on bar 2
+ */
+export function getReaperAudioStartMs(bpm: number, beatOffset: number): number {
+	if (bpm <= 0) return 0;
+	return (BEATS_PER_BAR * 60000) / bpm - firstBeatMs(beatOffset, bpm);
+}
+
+/**
+ * Write the .rpp project text
+ * @param durationSeconds - Length of the audio, used for the track items
+ */
+export function formatReaperProject(
+	session: {
+		bpm: number;
+		beatOffset: number;
+		tempoMap?: TempoSection[];
+		annotations: Annotation[];
+	},
+	tracks: ReaperTrack[],
+	durationSeconds: number
+): string {
+	const bpm = session.bpm > 0 ? session.bpm : 120;
+	const audioStartMs = getReaperAudioStartMs(bpm, session.beatOffset);
+	const lines = [
+		'<REAPER_PROJECT 0.1 "6.0"',
+		`  TEMPO ${Number(bpm.toFixed(6))} ${BEATS_PER_BAR} 4`
+	];
+
+	// Bar 2 starts on the first beat inside the track, so count the tempo map from there
+	const grid = startGridAtBeat({ bpm, tempoMap: session.tempoMap }, session.beatOffset < 0 ? 1 : 0);
+	if (grid.tempoMap?.length) {
+		const countInMs = (BEATS_PER_BAR * 60000) / bpm;
+		const points = [
+			{ ms: 0, bpm },
+			...(grid.bpm !== bpm ? [{ ms: countInMs, bpm: grid.bpm }] : []),
+			...grid.tempoMap.map((section) => ({
+				ms: countInMs + beatsToSeconds(section.startBeat, grid) * 1000,
+				bpm: section.bpm
+			}))
+		];
+		// Square (shape 1) points hold each tempo until the next change
+		lines.push('  <TEMPOENVEX', '    ACT 1 -1', '    VIS 1 0 1', '    DEFSHAPE 1 -1 -1');
+		for (const point of points) {
+			lines.push(`    PT ${seconds(point.ms)} ${Number(point.bpm.toFixed(6))} 1`);
+		}
+		lines.push('  >');
+	}
+
+	let markerNumber = 0;
+	for (const annotation of [...session.annotations].sort((a, b) => a.startTimeMs - b.startTimeMs)) {
+		markerNumber++;
+		const start = seconds(audioStartMs + annotation.startTimeMs);
+		const color = toReaperColor(annotation.color);
+		if (!annotation.isPoint && annotation.endTimeMs > annotation.startTimeMs) {
+			// A region is a pair of lines with the same number: its start (named) and its end
+			lines.push(`  MARKER ${markerNumber} ${start} ${quote(annotation.label)} 1 ${color}`);
+			lines.push(`  MARKER ${markerNumber} ${seconds(audioStartMs + annotation.endTimeMs)} "" 1`);
+		} else {
+			lines.push(`  MARKER ${markerNumber} ${start} ${quote(annotation.label)} 0 ${color}`);
+		}
+	}
+
+	for (const track of tracks) {
+		lines.push(
+			'  <TRACK',
+			`    NAME ${quote(track.name)}`,
+			`    PEAKCOL ${toReaperColor(track.color) || 16576}`,
+			`    MUTESOLO ${track.muted ? 1 : 0} 0 0`,
+			'    <ITEM',
+			`      POSITION ${seconds(audioStartMs)}`,
+			`      LENGTH ${seconds(durationSeconds * 1000)}`,
+			`      NAME ${quote(track.name)}`,
+			`      <SOURCE ${track.sourceType}`,
+			`        FILE ${quote(track.file)}`,
+			'      >',
+			'    >',
+			'  >'
+		);
+	}
+
+	lines.push('>');
+	return lines.map((line) => `${line}\n`).join('');
+}
+
+/**
+ * Replace characters that are awkward in file names inside the archive
+ */
+function safeName(name: string): string {
+	return name.replace(/[\\/:*?"<>|]+/g, '_');
+}
+
+/**
+ * Build the ZIP with the project and its stem audio, all inside a folder named after the session.
+ * The original download copy of a stem is preferred over the stored playback copy.
+ */
+export async function createReaperExport(session: {
+	filename: string;
+	bpm: number;
+	beatOffset: number;
+	tempoMap?: TempoSection[];
+	duration?: number;
+	annotations: Annotation[];
+	stems?: Stem[];
+}): Promise<Blob> {
+	const stems = session.stems ?? [];
+	if (stems.length === 0) {
+		throw new Error('REAPER export needs a stem session');
+	}
+	if (!session.duration) {
+		throw new Error('Open the session once so its length is known');
+	}
+
+	const folder = safeName(stripExtension(session.filename)) || 'Project';
+	const entries: ZipEntry[] = [];
+	const tracks: ReaperTrack[] = [];
+
+	for (const [index, stem] of stems.entries()) {
+		if (!stem.downloadBlob && !stem.mp3Blob) {
+			throw new Error(`Stem "${stem.filename}" has no audio`);
+		}
+		const data = stem.downloadBlob
+			? new Uint8Array(await stem.downloadBlob.arrayBuffer())
+			: new Uint8Array(stem.mp3Blob!);
+		const format = detectAudioFormat(data);
+		const file = `Media/${index + 1}-${safeName(stripExtension(stem.filename))}.${format.extension}`;
+
+		entries.push({ name: `${folder}/${file}`, data });
+		tracks.push({
+			name: stripExtension(stem.filename),
+			file,
+			sourceType: format.sourceType,
+			muted: !stem.enabled,
+			color: stem.color
+		});
+	}
+
+	const project = formatReaperProject(session, tracks, session.duration);
+	entries.unshift({ name: `${folder}/${folder}.rpp`, data: new TextEncoder().encode(project) });
+
+	return new Blob([createZip(entries)], { type: 'application/zip' });
+}
@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import { formatRekordboxXml, parseRekordboxCollection } from './rekordboxXml';
+import { djCuesToAnnotations, findDjTrack, toBeatOffset, toSessionTempoMap } from './djTrack';
+
+const collection = `<?xml version="1.0" encoding="UTF-8"?>
+<DJ_PLAYLISTS Version="1.0.0">
+  <PRODUCT Name="rekordbox" Version="6.7.0" Company="AlphaTheta"/>
+  <COLLECTION Entries="2">
+    <TRACK TrackID="1" Name="Other" Location="file://localhost/C:/Music/other.mp3"/>
+    <TRACK TrackID="2" Name="Salsa &amp; Son" Artist="Band" AverageBpm="180.00"
+      Location="file://localhost/C:/Music/My%20Song.mp3">
+      <!-- grid -->
+      <TEMPO Inizio="62.000" Bpm="120.00" Metro="4/4" Battito="1"/>
+      <TEMPO Inizio="0.250" Bpm="120.00" Metro="4/4" Battito="1"/>
+      <POSITION_MARK Name="" Type="0" Start="10.5" Num="1" Red="255" Green="0" Blue="0"/>
+      <POSITION_MARK Name="Break" Type="4" Start="20.000" End="24.000" Num="-1"/>
+      <POSITION_MARK Name="" Type="0" Start="5.000" Num="-1"/>
+    </TRACK>
+  </COLLECTION>
+  <PLAYLISTS>
+    <NODE Type="0" Name="ROOT"><TRACK Key="1"/></NODE>
+  </PLAYLISTS>
+</DJ_PLAYLISTS>`;
+
+describe('parseRekordboxCollection', () => {
+	it('reads collection tracks with their first tempo marker and cues', () => {
+		// Both markers keep the tempo, so there are no tempo changes
+		const tracks = parseRekordboxCollection(collection);
+
+		expect(tracks).toHaveLength(2);
+		expect(tracks[1]).toMatchObject({
+			title: 'Salsa & Son',
+			filename: 'My Song.mp3',
+			bpm: 120,
+			firstBeatMs: 250
+		});
+		expect(tracks[1].tempoMap).toBeUndefined();
+		expect(tracks[1].cues.map((cue) => [cue.name, cue.startMs, cue.endMs])).toEqual([
+			['Memory cue', 5000, undefined],
+			['Hot cue B', 10500, undefined],
+			['Break', 20000, 24000]
+		]);
+		expect(tracks[1].cues[1].color).toBe('#ff0000');
+	});
+
+	it('rejects files that are not rekordbox collections', () => {
+		expect(() => parseRekordboxCollection('<foo/>')).toThrow('rekordbox');
+	});
+});
+
+describe('findDjTrack', () => {
+	const tracks = parseRekordboxCollection(collection);
+
+	it('matches by file name, then by tags', () => {
+		expect(findDjTrack(tracks, { filename: 'my song.mp3' })?.title).toBe('Salsa & Son');
+		expect(findDjTrack(tracks, { filename: 'My Song.wav' })?.title).toBe('Salsa & Son');
+		expect(
+			findDjTrack(tracks, {
+				filename: 'x.mp3',
+				metadata: { title: 'Salsa & Son', artist: 'band' }
+			})?.title
+		).toBe('Salsa & Son');
+		expect(findDjTrack(tracks, { filename: 'x.mp3' })).toBeNull();
+	});
+});
+
+describe('djCuesToAnnotations', () => {
+	it('turns loops into ranges and keeps cue colours', () => {
+		const [track] = parseRekordboxCollection(collection).slice(1);
+		const annotations = djCuesToAnnotations(track.cues);
+
+		expect(annotations.map((a) => a.label)).toEqual(['Memory cue', 'Hot cue B', 'Break']);
+		expect(annotations[1].color).toBe('#ff0000');
+		expect(annotations[0].isPoint).toBe(true);
+		expect(annotations[2]).toMatchObject({ startTimeMs: 20000, endTimeMs: 24000 });
+	});
+});
+
+describe('formatRekordboxXml', () => {
+	it('round-trips the grid and annotations as memory cues', () => {
+		const xml = formatRekordboxXml({
+			filename: 'My Song.mp3',
+			duration: 200.4,
+			bpm: 120,
+			beatOffset: -100,
+			annotations: [
+				{ id: 'a', startTimeMs: 8000, endTimeMs: 9000, label: 'A <b>', color: '#00ff00' },
+				{
+					id: 'b',
+					startTimeMs: 1000,
+					endTimeMs: 1000,
+					label: 'Hit',
+					color: '#0000ff',
+					isPoint: true
+				}
+			]
+		});
+
+		const [track] = parseRekordboxCollection(xml);
+		expect(track).toMatchObject({ filename: 'My Song.mp3', bpm: 120, firstBeatMs: 400 });
+		expect(toBeatOffset(track.firstBeatMs!, track.bpm!)).toBe(-100);
+		expect(track.cues).toEqual([
+			{ name: 'Hit', startMs: 1000, color: '#0000ff' },
+			{ name: 'A <b>', startMs: 8000, endMs: 9000, color: '#00ff00' }
+		]);
+	});
+
+	it('writes a TEMPO marker for each tempo change', () => {
+		const xml = formatRekordboxXml({
+			filename: 'Live.mp3',
+			bpm: 120,
+			beatOffset: 500,
+			tempoMap: [{ startBeat: 6, bpm: 100 }],
+			annotations: []
+		});
+
+		expect(xml).toContain('<TEMPO Inizio="0.500" Bpm="120.00" Metro="4/4" Battito="1"/>');
+		expect(xml).toContain('<TEMPO Inizio="3.500" Bpm="100.00" Metro="4/4" Battito="3"/>');
+		expect(parseRekordboxCollection(xml)[0]).toMatchObject({
+			bpm: 120,
+			firstBeatMs: 500,
+			tempoMap: [{ startBeat: 6, bpm: 100 }]
+		});
+	});
+
+	it('round-trips tempo changes onto the session grid', () => {
+		const tempoMap = [
+			{ startBeat: 6, bpm: 100 },
+			{ startBeat: 10, bpm: 140 }
+		];
+		// The first beat is before the track, so the exported grid starts one beat later
+		const xml = formatRekordboxXml({
+			filename: 'Live.mp3',
+			bpm: 120,
+			beatOffset: -100,
+			tempoMap,
+			annotations: []
+		});
+
+		const [track] = parseRekordboxCollection(xml);
+		expect(track.tempoMap).toEqual([
+			{ startBeat: 5, bpm: 100 },
+			{ startBeat: 9, bpm: 140 }
+		]);
+		expect(toBeatOffset(track.firstBeatMs!, track.bpm!)).toBe(-100);
+		expect(toSessionTempoMap(track.tempoMap!, track.firstBeatMs!, track.bpm!)).toEqual(tempoMap);
+	});
+});
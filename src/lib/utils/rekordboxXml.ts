@@ -0,0 +1,200 @@
+/**
+ * rekordbox collection XML import/export
+ * A collection lists TRACK elements, each with TEMPO markers (beat grid, one per tempo
+ * change) and POSITION_MARK elements (hot cues, memory cues and loops). Times are in seconds.
+ */
+
+import type { Annotation, TempoSection, TrackMetadata } from '../types';
+import { baseFilename, firstBeatMs, type DjCue, type DjTrack } from './djTrack';
+import { stripExtension } from './download';
+import { beatsToSeconds, normalizeTempoMap, startGridAtBeat } from './tempoMap';
+import { formatAttributes, numberAttribute, parseXml, type XmlElement } from './xml';
+
+function toHexColor(
+	red: string | undefined,
+	green: string | undefined,
+	blue: string | undefined
+): string | undefined {
+	const channels = [red, green, blue].map(numberAttribute);
+	if (channels.some((channel) => channel === undefined)) return undefined;
+	return `#${channels.map((channel) => Math.max(0, Math.min(255, channel!)).toString(16).padStart(2, '0')).join('')}`;
+}
+
+/**
+ * File name at the end of a rekordbox Location URL (file://localhost/...)
+ */
+function locationFilename(location: string | undefined): string {
+	const segment = baseFilename(location);
+	try {
+		return decodeURIComponent(segment);
+	} catch {
+		return segment;
+	}
+}
+
+/**
+ * Unnamed cues are labelled by kind: hot cues by their pad letter
+ */
+function cueName(name: string | undefined, num: number | undefined): string {
+	if (name?.trim()) return name.trim();
+	return num !== undefined && num >= 0
+		? `Hot cue ${String.fromCharCode(65 + (num % 26))}`
+		: 'Memory cue';
+}
+
+interface TempoMarker {
+	start: number; // Seconds
+	bpm: number;
+}
+
+/**
+ * Tempo changes after the first TEMPO marker, on the beat of the grid each one starts at.
+ * Markers that keep the tempo only re-phase the grid, which a tempo map cannot, so they are skipped.
+ */
+function toTempoMap(markers: TempoMarker[]): TempoSection[] {
+	const sections: TempoSection[] = [];
+	let beat = 0;
+	for (let i = 1; i < markers.length; i++) {
+		const previous = markers[i - 1];
+		beat += ((markers[i].start - previous.start) * previous.bpm) / 60;
+		if (markers[i].bpm !== previous.bpm) {
+			sections.push({ startBeat: Math.round(beat), bpm: markers[i].bpm });
+		}
+	}
+	return normalizeTempoMap(sections);
+}
+
+function toRekordboxTrack(element: XmlElement): DjTrack {
+	const { attributes } = element;
+	const tempos = element.children
+		.filter((child) => child.name === 'TEMPO')
+		.map((tempo) => ({
+			start: numberAttribute(tempo.attributes.Inizio),
+			bpm: numberAttribute(tempo.attributes.Bpm)
+		}))
+		.filter(
+			(tempo): tempo is TempoMarker =>
+				tempo.start !== undefined && tempo.bpm !== undefined && tempo.bpm > 0
+		)
+		.sort((a, b) => a.start - b.start);
+	const [firstTempo] = tempos;
+	const tempoMap = toTempoMap(tempos);
+
+	const cues: DjCue[] = [];
+	for (const mark of element.children.filter((child) => child.name === 'POSITION_MARK')) {
+		const start = numberAttribute(mark.attributes.Start);
+		if (start === undefined || start < 0) continue;
+
+		const end = numberAttribute(mark.attributes.End);
+		cues.push({
+			name: cueName(mark.attributes.Name, numberAttribute(mark.attributes.Num)),
+			startMs: Math.round(start * 1000),
+			...(end !== undefined && end > start ? { endMs: Math.round(end * 1000) } : {}),
+			color: toHexColor(mark.attributes.Red, mark.attributes.Green, mark.attributes.Blue)
+		});
+	}
+
+	return {
+		title: attributes.Name ?? '',
+		artist: attributes.Artist ?? '',
+		filename: locationFilename(attributes.Location),
+		bpm: firstTempo?.bpm ?? numberAttribute(attributes.AverageBpm),
+		firstBeatMs: firstTempo ? Math.round(firstTempo.start * 1000) : undefined,
+		...(tempoMap.length > 0 ? { tempoMap } : {}),
+		cues: cues.sort((a, b) => a.startMs - b.startMs)
+	};
+}
+
+/**
+ * Tracks of a rekordbox collection XML (playlist entries, which only reference tracks, are ignored)
+ * @throws Error if the file is not a rekordbox collection
+ */
+export function parseRekordboxCollection(xml: string): DjTrack[] {
+	const root = parseXml(xml).find((element) => element.name === 'DJ_PLAYLISTS');
+	const collection = root?.children.find((element) => element.name === 'COLLECTION');
+	if (!collection) {
+		throw new Error('File is not a rekordbox collection XML');
+	}
+
+	return collection.children.filter((element) => element.name === 'TRACK').map(toRekordboxTrack);
+}
+
+function hexToRgb(hex: string): { Red: number; Green: number; Blue: number } | null {
+	const match = /^#?([0-9a-f]{6})$/i.exec(hex.trim());
+	if (!match) return null;
+	const value = parseInt(match[1], 16);
+	return { Red: (value >> 16) & 0xff, Green: (value >> 8) & 0xff, Blue: value & 0xff };
+}
+
+/**
+ * Serialize a session as a one-track rekordbox collection. Annotations become memory cues:
+ * ranges as loops, points as cues. The Location holds only the file name, since the
+ * browser does not know where the file lives; rekordbox asks to relocate it.
+ */
+export function formatRekordboxXml(session: {
+	filename: string;
+	metadata?: TrackMetadata;
+	duration?: number;
+	bpm: number;
+	beatOffset: number;
+	tempoMap?: TempoSection[];
+	annotations: Annotation[];
+}): string {
+	const { bpm, metadata } = session;
+
+	const trackAttributes = formatAttributes({
+		TrackID: 1,
+		Name: metadata?.title ?? stripExtension(session.filename),
+		Artist: metadata?.artist,
+		Album: metadata?.album,
+		Genre: metadata?.genre,
+		TotalTime: session.duration !== undefined ? Math.round(session.duration) : undefined,
+		AverageBpm: bpm > 0 ? bpm.toFixed(2) : undefined,
+		Location: `file://localhost/${encodeURIComponent(session.filename)}`
+	});
+
+	const lines = [
+		'<?xml version="1.0" encoding="UTF-8"?>',
+		'<DJ_PLAYLISTS Version="1.0.0">',
+		'  <PRODUCT Name="Music Nerd" Version="1.0" Company=""/>',
+		'  <COLLECTION Entries="1">',
+		`    <TRACK${trackAttributes}>`
+	];
+
+	if (bpm > 0) {
+		// One TEMPO per tempo section, counted from the first beat inside the track
+		const firstBeat = firstBeatMs(session.beatOffset, bpm);
+		const grid = startGridAtBeat(
+			{ bpm, tempoMap: session.tempoMap },
+			session.beatOffset < 0 ? 1 : 0
+		);
+		const sections = [{ startBeat: 0, bpm: grid.bpm }, ...(grid.tempoMap ?? [])];
+		for (const section of sections) {
+			lines.push(
+				`      <TEMPO${formatAttributes({
+					Inizio: ((firstBeat + beatsToSeconds(section.startBeat, grid) * 1000) / 1000).toFixed(3),
+					Bpm: section.bpm.toFixed(2),
+					Metro: '4/4',
+					Battito: (section.startBeat % 4) + 1
+				})}/>`
+			);
+		}
+	}
+
+	for (const annotation of [...session.annotations].sort((a, b) => a.startTimeMs - b.startTimeMs)) {
+		const isLoop = !annotation.isPoint && annotation.endTimeMs > annotation.startTimeMs;
+		lines.push(
+			`      <POSITION_MARK${formatAttributes({
+				Name: annotation.label,
+				Type: isLoop ? 4 : 0,
+				Start: (annotation.startTimeMs / 1000).toFixed(3),
+				End: isLoop ? (annotation.endTimeMs / 1000).toFixed(3) : undefined,
+				Num: -1,
+				...hexToRgb(annotation.color)
+			})}/>`
+		);
+	}
+
+	lines.push('    </TRACK>', '  </COLLECTION>', '</DJ_PLAYLISTS>');
+	return lines.map((line) => `${line}\n`).join('');
+}
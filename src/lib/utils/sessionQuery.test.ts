@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import {
+	querySessions,
+	parseTags,
+	collectTags,
+	collectFolders,
+	groupVariations
+} from './sessionQuery';
+import type { SessionSummary } from '../types';
+
+function makeSession(overrides: Partial<SessionSummary>): SessionSummary {
+	return {
+		id: 'id',
+		filename: 'song.mp3',
+		created: '2026-01-01T00:00:00.000Z',
+		bpm: 120,
+		beatOffset: 0,
+		manualBpm: false,
+		beatsPerLine: 8,
+		beats: [],
+		annotations: [],
+		targetBPM: 120,
+		tags: [],
+		...overrides
+	};
+}
+
+const sessions = [
+	makeSession({
+		id: 'a',
+		filename: 'Cuban Salsa.mp3',
+		bpm: 180,
+		tags: ['salsa'],
+		folder: 'Competition',
+		created: '2026-01-03T00:00:00.000Z',
+		duration: 200,
+		metadata: { title: 'Guantanamera', artist: 'Celia Cruz' }
+	}),
+	makeSession({
+		id: 'b',
+		filename: 'Bachata Rosa.mp3',
+		bpm: 130,
+		tags: ['bachata', 'social'],
+		created: '2026-01-01T00:00:00.000Z',
+		duration: 300,
+		annotations: [
+			{ id: 'x', startTimeMs: 0, endTimeMs: 1000, label: 'Chorus 1', color: '#fff' },
+			{ id: 'y', startTimeMs: 2000, endTimeMs: 3000, label: 'Bridge', color: '#fff' }
+		]
+	}),
+	makeSession({
+		id: 'c',
+		filename: 'Stems (5 stems)',
+		bpm: 95,
+		tags: ['salsa', 'social'],
+		mode: 'stem',
+		folder: 'Practice',
+		created: '2026-01-02T00:00:00.000Z',
+		lastOpened: '2026-02-01T00:00:00.000Z'
+	})
+];
+
+const ids = (list: SessionSummary[]) => list.map((s) => s.id);
+
+describe('querySessions', () => {
+	it('defaults to newest first', () => {
+		expect(ids(querySessions(sessions))).toEqual(['a', 'c', 'b']);
+	});
+
+	it('searches filenames and annotation labels case-insensitively', () => {
+		expect(ids(querySessions(sessions, { search: 'rosa' }))).toEqual(['b']);
+		expect(ids(querySessions(sessions, { search: 'chorus' }))).toEqual(['b']);
+	});
+
+	it('searches title and artist tags', () => {
+		expect(ids(querySessions(sessions, { search: 'celia' }))).toEqual(['a']);
+	});
+
+	it('requires every selected tag', () => {
+		expect(ids(querySessions(sessions, { tags: ['salsa'] }))).toEqual(['a', 'c']);
+		expect(ids(querySessions(sessions, { tags: ['salsa', 'social'] }))).toEqual(['c']);
+	});
+
+	it('filters by folder, including sessions without one', () => {
+		expect(ids(querySessions(sessions, { folder: 'Practice' }))).toEqual(['c']);
+		expect(ids(querySessions(sessions, { folder: null }))).toEqual(['b']);
+	});
+
+	it('filters by mode and BPM range', () => {
+		expect(ids(querySessions(sessions, { mode: 'stem' }))).toEqual(['c']);
+		expect(ids(querySessions(sessions, { minBpm: 100, maxBpm: 150 }))).toEqual(['b']);
+	});
+
+	it('sorts by the requested key and direction', () => {
+		expect(ids(querySessions(sessions, { sortBy: 'bpm', sortDirection: 'asc' }))).toEqual([
+			'c',
+			'b',
+			'a'
+		]);
+		expect(ids(querySessions(sessions, { sortBy: 'annotationCount' }))[0]).toBe('b');
+		expect(ids(querySessions(sessions, { sortBy: 'lastOpened' }))[0]).toBe('c');
+		expect(ids(querySessions(sessions, { sortBy: 'duration' }))).toEqual(['b', 'a', 'c']);
+	});
+});
+
+describe('tags and folders', () => {
+	it('normalizes and de-duplicates user input', () => {
+		expect(parseTags(' Salsa, competition  2026 ,salsa,, ')).toEqual(['salsa', 'competition 2026']);
+	});
+
+	it('collects tags and folders in use', () => {
+		expect(collectTags(sessions)).toEqual(['bachata', 'salsa', 'social']);
+		expect(collectFolders(sessions)).toEqual(['Competition', 'Practice']);
+	});
+});
+
+describe('groupVariations', () => {
+	it('nests variations under their source in list order', () => {
+		const source = makeSession({ id: 'src' });
+		const choreo = makeSession({ id: 'v1', sourceSessionId: 'src' });
+		const other = makeSession({ id: 'other' });
+		const groups = groupVariations([choreo, other, source]);
+
+		expect(groups.map((group) => group.session.id)).toEqual(['other', 'src']);
+		expect(ids(groups[1].variations)).toEqual(['v1']);
+	});
+
+	it('lists variations on their own when the source is missing', () => {
+		const orphan = makeSession({ id: 'v1', sourceSessionId: 'deleted' });
+		expect(groupVariations([orphan])).toEqual([{ session: orphan, variations: [] }]);
+	});
+});
@@ -0,0 +1,186 @@
+/**
+ * Library search, filtering and sorting over session metadata
+ */
+
+import type { SessionSummary } from '../types';
+
+export type SessionSortKey =
+	| 'created'
+	| 'lastOpened'
+	| 'filename'
+	| 'bpm'
+	| 'duration'
+	| 'annotationCount';
+
+export interface SessionQuery {
+	search?: string; // Matches filename, title/artist/album tags, annotation labels, tags and folder (case-insensitive)
+	tags?: string[]; // Session must carry every listed tag
+	folder?: string | null; // undefined = any folder, null = sessions without a folder
+	mode?: 'single' | 'stem';
+	minBpm?: number;
+	maxBpm?: number;
+	sortBy?: SessionSortKey;
+	sortDirection?: 'asc' | 'desc';
+}
+
+export const SORT_OPTIONS: { key: SessionSortKey; label: string }[] = [
+	{ key: 'created', label: 'Date added' },
+	{ key: 'lastOpened', label: 'Last opened' },
+	{ key: 'filename', label: 'Name' },
+	{ key: 'bpm', label: 'BPM' },
+	{ key: 'duration', label: 'Duration' },
+	{ key: 'annotationCount', label: 'Annotations' }
+];
+
+/**
+ * Canonical form of a user-entered tag ("  Salsa " -> "salsa")
+ */
+export function normalizeTag(tag: string): string {
+	return tag.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Split comma-separated user input into unique, normalized tags
+ */
+export function parseTags(input: string): string[] {
+	return [...new Set(input.split(',').map(normalizeTag).filter(Boolean))];
+}
+
+/**
+ * Session length in seconds, falling back to the last beat for sessions never re-opened
+ */
+export function getSessionDuration(session: SessionSummary): number {
+	if (session.duration) return session.duration;
+	return session.beats.length > 0 ? session.beats[session.beats.length - 1].time : 0;
+}
+
+export function matchesQuery(session: SessionSummary, query: SessionQuery): boolean {
+	if (query.mode && (session.mode ?? 'single') !== query.mode) {
+		return false;
+	}
+
+	if (query.folder !== undefined && (session.folder || null) !== query.folder) {
+		return false;
+	}
+
+	if (query.tags?.length) {
+		const tags = session.tags ?? [];
+		if (!query.tags.every((tag) => tags.includes(tag))) {
+			return false;
+		}
+	}
+
+	if (query.minBpm !== undefined && session.bpm < query.minBpm) return false;
+	if (query.maxBpm !== undefined && session.bpm > query.maxBpm) return false;
+
+	const search = query.search?.trim().toLowerCase();
+	if (search) {
+		const haystack = [
+			session.filename,
+			session.metadata?.title ?? '',
+			session.metadata?.artist ?? '',
+			session.metadata?.album ?? '',
+			session.folder ?? '',
+			...(session.tags ?? []),
+			...session.annotations.map((annotation) => annotation.label)
+		];
+		if (!haystack.some((text) => text.toLowerCase().includes(search))) {
+			return false;
+		}
+	}
+
+	return true;
+}
+
+function sortValue(session: SessionSummary, key: SessionSortKey): number | string {
+	switch (key) {
+		case 'created':
+			return new Date(session.created).getTime();
+		case 'lastOpened':
+			// Never-opened sessions sort as if opened when created
+			return new Date(session.lastOpened ?? session.created).getTime();
+		case 'filename':
+			return session.filename.toLowerCase();
+		case 'bpm':
+			return session.bpm;
+		case 'duration':
+			return getSessionDuration(session);
+		case 'annotationCount':
+			return session.annotations.length;
+	}
+}
+
+export function sortSessions<T extends SessionSummary>(
+	sessions: T[],
+	sortBy: SessionSortKey = 'created',
+	sortDirection: 'asc' | 'desc' = 'desc'
+): T[] {
+	const direction = sortDirection === 'asc' ? 1 : -1;
+	return [...sessions].sort((a, b) => {
+		const valueA = sortValue(a, sortBy);
+		const valueB = sortValue(b, sortBy);
+		if (valueA < valueB) return -direction;
+		if (valueA > valueB) return direction;
+		return 0;
+	});
+}
+
+/**
+ * Filter and sort sessions. Without a sort key, newest sessions come first.
+ */
+export function querySessions<T extends SessionSummary>(
+	sessions: T[],
+	query: SessionQuery = {}
+): T[] {
+	return sortSessions(
+		sessions.filter((session) => matchesQuery(session, query)),
+		query.sortBy,
+		query.sortDirection
+	);
+}
+
+/**
+ * Every tag in use, alphabetically
+ */
+export function collectTags(sessions: SessionSummary[]): string[] {
+	return [...new Set(sessions.flatMap((session) => session.tags ?? []))].sort();
+}
+
+/**
+ * Every folder in use, alphabetically
+ */
+export function collectFolders(sessions: SessionSummary[]): string[] {
+	return [
+		...new Set(
+			sessions.map((session) => session.folder).filter((folder): folder is string => !!folder)
+		)
+	].sort();
+}
+
+export interface SessionGroup<T extends SessionSummary> {
+	session: T;
+	variations: T[]; // Sessions duplicated from this one, in list order
+}
+
+/**
+ * Nest variations under their source session, keeping the list order.
+ * A variation whose source is not in the list (deleted, or filtered out) is listed on its own.
+ */
+export function groupVariations<T extends SessionSummary>(sessions: T[]): SessionGroup<T>[] {
+	const listedIds = new Set(sessions.map((session) => session.id));
+	const groups = new Map<string, SessionGroup<T>>();
+
+	for (const session of sessions) {
+		if (!session.sourceSessionId || !listedIds.has(session.sourceSessionId)) {
+			groups.set(session.id, { session, variations: [] });
+		}
+	}
+	for (const session of sessions) {
+		const group = session.sourceSessionId ? groups.get(session.sourceSessionId) : undefined;
+		if (group && session.sourceSessionId !== session.id) {
+			group.variations.push(session);
+		}
+	}
+
+	return [...groups.values()];
+}
@@ -5,10 +5,9 @@ import {
 	Output,
 	Mp3OutputFormat,
 	BufferTarget,
-	Conversion,
-	canEncodeAudio
+	Conversion
 } from 'mediabunny';
-import { registerMp3Encoder } from '@mediabunny/mp3-encoder';
+import { ensureMp3Encoder } from './audioTranscoder';
 
 export interface StemFile {
 	name: string;
@@ -27,31 +26,16 @@ const STEM_MAPPING: Record<number, string> = {
 };
 
 class StemExtractor {
-	private mp3EncoderRegistered = false;
-
-	/**
-	 * Ensure MP3 encoder is registered (lazy initialization)
-	 */
-	private async ensureMp3Encoder(): Promise<void> {
-		if (this.mp3EncoderRegistered) {
-			return;
-		}
-
-		// Check if native MP3 encoding is available, if not register the custom encoder
-		if (!(await canEncodeAudio('mp3'))) {
-			registerMp3Encoder();
-		}
-		this.mp3EncoderRegistered = true;
-	}
-
 	/**
 	 * Extract stems from a VirtualDJ .vdjstems file using Mediabunny
 	 * @param file The .vdjstems file to extract from
 	 * @param onProgress Optional callback for progress updates
+	 * @param bitrate MP3 bitrate for the extracted stems, in kbps
 	 */
 	async extractVirtualDjStems(
 		file: File,
-		onProgress?: (message: string) => void
+		onProgress?: (message: string) => void,
+		bitrate: number = 192
 	): Promise<StemFile[]> {
 		const outputFiles: StemFile[] = [];
 
@@ -60,7 +44,7 @@ class StemExtractor {
 			if (onProgress) {
 				onProgress('Initializing Mediabunny...');
 			}
-			await this.ensureMp3Encoder();
+			await ensureMp3Encoder();
 
 			const input = new Input({
 				source: new BlobSource(file),
@@ -117,7 +101,7 @@ class StemExtractor {
 							if (trackIndex === i + 1) {
 								// Keep the track and set bitrate
 								return {
-									bitrate: 192e3 // 192 kbps
+									bitrate: bitrate * 1000
 								};
 							} else {
 								// Discard all other tracks
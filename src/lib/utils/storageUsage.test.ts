@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import {
+	countBlobReferences,
+	formatBytes,
+	getBlobReferences,
+	isNearQuota,
+	matchStemFiles
+} from './storageUsage';
+
+describe('formatBytes', () => {
+	it('picks a unit and keeps one decimal for small values', () => {
+		expect(formatBytes(512)).toBe('512 B');
+		expect(formatBytes(1536)).toBe('1.5 KB');
+		expect(formatBytes(25 * 1024 * 1024)).toBe('25 MB');
+		expect(formatBytes(3 * 1024 * 1024 * 1024)).toBe('3.0 GB');
+	});
+});
+
+describe('isNearQuota', () => {
+	it('warns above 80% of the quota', () => {
+		expect(isNearQuota(79, 100)).toBe(false);
+		expect(isNearQuota(81, 100)).toBe(true);
+	});
+
+	it('never warns when the quota is unknown', () => {
+		expect(isNearQuota(100, 0)).toBe(false);
+	});
+});
+
+describe('matchStemFiles', () => {
+	const stems = [
+		{ id: 'v', filename: 'Vocals.mp3' },
+		{ id: 'd', filename: 'Drums.mp3' }
+	];
+
+	it('matches files by name regardless of case and extension', () => {
+		const vocals = new File([], 'vocals.wav');
+		const drums = new File([], 'DRUMS.mp3');
+		const { matches, missing } = matchStemFiles(stems, [drums, vocals]);
+
+		expect(matches.get('v')).toBe(vocals);
+		expect(matches.get('d')).toBe(drums);
+		expect(missing).toEqual([]);
+	});
+
+	it('reports stems without a matching file', () => {
+		const { missing } = matchStemFiles(stems, [new File([], 'Vocals.mp3')]);
+		expect(missing).toEqual(['Drums.mp3']);
+	});
+});
+
+describe('getBlobReferences', () => {
+	it('lists each hash once, the main track first', () => {
+		const references = getBlobReferences({
+			audioHash: 'track',
+			stems: [{ audioHash: 'track' }, { audioHash: 'vocals', downloadHash: 'vocals-wav' }]
+		});
+
+		expect(references).toEqual({
+			audio: ['track'],
+			stems: ['vocals'],
+			downloads: ['vocals-wav'],
+			covers: []
+		});
+	});
+
+	it('keeps only the cover of archived sessions', () => {
+		const references = getBlobReferences({
+			audioHash: 'track',
+			metadata: { coverArtHash: 'cover' },
+			archivedAt: '2026-01-01'
+		});
+
+		expect(references).toEqual({ audio: [], stems: [], downloads: [], covers: ['cover'] });
+	});
+});
+
+describe('countBlobReferences', () => {
+	it('counts the sessions using each hash', () => {
+		const counts = countBlobReferences([
+			{ audioHash: 'track', stems: [{ audioHash: 'track' }] },
+			{ audioHash: 'track' },
+			{ stems: [{ audioHash: 'drums' }] }
+		]);
+
+		expect(counts).toEqual(
+			new Map([
+				['track', 2],
+				['drums', 1]
+			])
+		);
+	});
+});
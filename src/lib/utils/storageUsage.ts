@@ -0,0 +1,110 @@
+/**
+ * Storage usage helpers for the storage manager
+ */
+
+import { stripExtension } from './download';
+import type { Stem, TrackSession } from '../types';
+
+// Share of the browser quota above which the library warns about space
+export const STORAGE_WARNING_RATIO = 0.8;
+
+/**
+ * Whether usage has crossed the warning threshold
+ */
+export function isNearQuota(used: number, quota: number): boolean {
+	return quota > 0 && used / quota > STORAGE_WARNING_RATIO;
+}
+
+/**
+ * Human-readable byte count (1024-based)
+ */
+export function formatBytes(bytes: number): string {
+	if (bytes < 1024) {
+		return `${bytes} B`;
+	}
+
+	const units = ['KB', 'MB', 'GB', 'TB'];
+	let value = bytes / 1024;
+	let unitIndex = 0;
+	while (value >= 1024 && unitIndex < units.length - 1) {
+		value /= 1024;
+		unitIndex++;
+	}
+
+	return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unitIndex]}`;
+}
+
+type BlobReferencing = Pick<TrackSession, 'audioHash' | 'archivedAt' | 'metadata'> & {
+	stems?: Pick<Stem, 'audioHash' | 'downloadHash'>[];
+};
+
+/**
+ * Hashes of the blobs a session uses, each listed once: the main track first, then
+ * stem playback audio, stem downloads and the cover image. Archived sessions keep
+ * their audio hashes to know what to restore, but no longer use the audio.
+ */
+export function getBlobReferences(session: BlobReferencing): {
+	audio: string[];
+	stems: string[];
+	downloads: string[];
+	covers: string[];
+} {
+	const seen = new Set<string>();
+	const unique = (hashes: (string | undefined)[]) =>
+		hashes.filter((hash): hash is string => {
+			if (!hash || seen.has(hash)) return false;
+			seen.add(hash);
+			return true;
+		});
+
+	const stemList = session.archivedAt ? [] : (session.stems ?? []);
+	const audio = unique([session.archivedAt ? undefined : session.audioHash]);
+	const stems = unique(stemList.map((stem) => stem.audioHash));
+	const downloads = unique(stemList.map((stem) => stem.downloadHash));
+	const covers = unique([session.metadata?.coverArtHash]);
+	return { audio, stems, downloads, covers };
+}
+
+/**
+ * Number of sessions using each stored blob
+ */
+export function countBlobReferences(sessions: BlobReferencing[]): Map<string, number> {
+	const counts = new Map<string, number>();
+	for (const session of sessions) {
+		const { audio, stems, downloads, covers } = getBlobReferences(session);
+		for (const hash of [...audio, ...stems, ...downloads, ...covers]) {
+			counts.set(hash, (counts.get(hash) ?? 0) + 1);
+		}
+	}
+	return counts;
+}
+
+function normalizeStemName(filename: string): string {
+	return stripExtension(filename).toLowerCase();
+}
+
+/**
+ * Pair re-selected audio files with the stems of an archived session.
+ * Files match a stem by filename, ignoring case and extension, so a stem stored
+ * as "Vocals.mp3" can be restored from "vocals.wav".
+ * @returns Files keyed by stem ID, plus the filenames of stems left without a file
+ */
+export function matchStemFiles(
+	stems: Pick<Stem, 'id' | 'filename'>[],
+	files: File[]
+): { matches: Map<string, File>; missing: string[] } {
+	const matches = new Map<string, File>();
+	const missing: string[] = [];
+
+	for (const stem of stems) {
+		const name = normalizeStemName(stem.filename);
+		const file = files.find((candidate) => normalizeStemName(candidate.name) === name);
+		if (file) {
+			matches.set(stem.id, file);
+		} else {
+			missing.push(stem.filename);
+		}
+	}
+
+	return { matches, missing };
+}
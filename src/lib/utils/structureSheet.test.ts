@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import {
+	assignLanes,
+	buildStructureSheet,
+	fitLabel,
+	formatStructureSheetHtml,
+	formatStructureSheetSvg,
+	getLegendEntries
+} from './structureSheet';
+import type { Annotation } from '../types';
+
+function annotation(id: string, startTimeMs: number, endTimeMs: number, label: string): Annotation {
+	return {
+		id,
+		startTimeMs,
+		endTimeMs,
+		label,
+		color: '#ff0000',
+		isPoint: startTimeMs === endTimeMs
+	};
+}
+
+const input = {
+	title: 'Song <demo>',
+	bpm: 120,
+	beatOffset: 0,
+	beatsPerLine: 8,
+	durationMs: 12000,
+	annotations: [
+		annotation('a', 0, 4000, 'Verse 1'),
+		annotation('b', 2000, 6000, 'Break'),
+		annotation('c', 6000, 10000, 'Verse 2'),
+		annotation('d', 5000, 5000, 'Drop')
+	]
+};
+
+describe('assignLanes', () => {
+	it('puts overlapping spans on separate lanes and reuses free lanes', () => {
+		const lanes = assignLanes(input.annotations.filter((a) => !a.isPoint));
+		expect(lanes.get('a')).toBe(0);
+		expect(lanes.get('b')).toBe(1);
+		expect(lanes.get('c')).toBe(0);
+	});
+});
+
+describe('getLegendEntries', () => {
+	it('groups labels by name without their number', () => {
+		expect(getLegendEntries(input.annotations)).toEqual([
+			{ name: 'Verse', color: '#ff0000', count: 2 },
+			{ name: 'Break', color: '#ff0000', count: 1 },
+			{ name: 'Drop', color: '#ff0000', count: 1 }
+		]);
+	});
+});
+
+describe('fitLabel', () => {
+	it('truncates labels that do not fit and drops them when there is no room', () => {
+		expect(fitLabel('Chorus', 100)).toBe('Chorus');
+		expect(fitLabel('A very long section name', 50)).toBe('A very l…');
+		expect(fitLabel('Chorus', 5)).toBe('');
+	});
+});
+
+describe('buildStructureSheet', () => {
+	it('lays out one row per line of beats plus header and legend', () => {
+		// 8 beats at 120 BPM = 4 s per row, 12 s of audio
+		const sheet = buildStructureSheet(input);
+		expect(sheet.blocks).toHaveLength(1 + 3 + 1);
+		expect(sheet.blocks[2].body).toContain('Bar 3');
+		expect(sheet.blocks[2].body).toContain('(Break)');
+	});
+
+	it('adds a pickup row when the first beat is after the start of the audio', () => {
+		const sheet = buildStructureSheet({ ...input, beatOffset: 200 });
+		expect(sheet.blocks).toHaveLength(1 + 4 + 1);
+		expect(sheet.blocks[1].body).not.toContain('Bar ');
+		expect(sheet.blocks[2].body).toContain('Bar 1');
+	});
+
+	it('follows tempo changes', () => {
+		// Second row (beats 8-15) at 60 BPM lasts 8 s, so 12 s of audio fit in two rows
+		const sheet = buildStructureSheet({ ...input, tempoMap: [{ startBeat: 8, bpm: 60 }] });
+		expect(sheet.blocks).toHaveLength(1 + 2 + 1);
+		expect(sheet.blocks[0].body).toContain('120 BPM at the start, 1 tempo change');
+	});
+
+	it('requires a tempo', () => {
+		expect(() => buildStructureSheet({ ...input, bpm: 0 })).toThrow('Set the tempo');
+	});
+});
+
+describe('formatStructureSheetSvg', () => {
+	it('stacks the blocks into one escaped SVG document', () => {
+		const svg = formatStructureSheetSvg(buildStructureSheet(input));
+		expect(svg).toMatch(/^<\?xml/);
+		expect(svg).toContain('<title>Song &lt;demo&gt;</title>');
+		expect(svg.match(/<g transform=/g)).toHaveLength(5);
+	});
+});
+
+describe('formatStructureSheetHtml', () => {
+	it('writes each block as its own SVG so pages break between rows', () => {
+		const html = formatStructureSheetHtml(buildStructureSheet(input));
+		expect(html).toContain('break-inside: avoid');
+		expect(html.match(/<svg /g)).toHaveLength(5);
+	});
+});
@@ -0,0 +1,366 @@
+/**
+ * Printable song structure sheet
+ * Lays the beat grid out like the on-screen view, one row per beatsPerLine beats, with
+ * bar numbers, 8-count numbers, coloured annotation spans and a legend of annotation
+ * groups. The sheet is a list of blocks (header, rows, legend) that are either stacked
+ * into one SVG or placed in a printable HTML page, where page breaks fall between rows.
+ */
+
+import type { Annotation, TempoSection } from '../types';
+import { getGroupKey, parseAnnotationGroup } from './colorNames';
+import { firstBeatMs } from './djTrack';
+import { beatsToSeconds, startGridAtBeat } from './tempoMap';
+import { escapeXml } from './xml';
+
+// The beat grid has no time signature, so bars are counted in 4/4
+const BEATS_PER_BAR = 4;
+const BEATS_PER_EIGHT_COUNT = 8;
+
+// Layout in CSS pixels; the width fits an A4 page at 96 dpi
+export const SHEET_WIDTH = 794;
+const MARGIN = 32;
+const GUTTER = 52; // Column holding the bar number of each row
+const GRID_X = MARGIN + GUTTER;
+const GRID_WIDTH = SHEET_WIDTH - GRID_X - MARGIN;
+const BEAT_HEADER_HEIGHT = 26;
+const MARKER_STRIP_HEIGHT = 16;
+const LANE_HEIGHT = 18;
+const ROW_GAP = 10;
+const FONT_SIZE = 10;
+const TEXT_COLOR = '#111827';
+const MUTED_COLOR = '#6b7280';
+
+export interface SheetBlock {
+	height: number;
+	body: string; // SVG content drawn from y = 0, SHEET_WIDTH wide
+}
+
+export interface StructureSheet {
+	title: string;
+	blocks: SheetBlock[];
+}
+
+export interface StructureSheetInput {
+	title: string;
+	artist?: string;
+	bpm: number;
+	beatOffset: number;
+	tempoMap?: TempoSection[];
+	beatsPerLine: number;
+	durationMs: number;
+	annotations: Annotation[];
+}
+
+export interface SheetLegendEntry {
+	name: string;
+	color: string;
+	count: number;
+}
+
+function num(value: number): string {
+	return String(Math.round(value * 10) / 10);
+}
+
+function text(
+	x: number,
+	y: number,
+	content: string,
+	attributes: { size?: number; color?: string; weight?: string; anchor?: string } = {}
+): string {
+	const { size = FONT_SIZE, color = TEXT_COLOR, weight, anchor } = attributes;
+	return (
+		`<text x="${num(x)}" y="${num(y)}" font-size="${size}" fill="${color}"` +
+		(weight ? ` font-weight="${weight}"` : '') +
+		(anchor ? ` text-anchor="${anchor}"` : '') +
+		`>${escapeXml(content)}</text>`
+	);
+}
+
+function line(x1: number, y1: number, x2: number, y2: number, color: string, width = 1): string {
+	return `<line x1="${num(x1)}" y1="${num(y1)}" x2="${num(x2)}" y2="${num(y2)}" stroke="${color}" stroke-width="${width}"/>`;
+}
+
+function safeColor(color: string): string {
+	return /^#[0-9a-f]{3,8}$/i.test(color) ? color : MUTED_COLOR;
+}
+
+/**
+ * Shorten a label to roughly fit a width, using an average glyph width
+ */
+export function fitLabel(label: string, width: number, fontSize = FONT_SIZE): string {
+	const maxChars = Math.floor(width / (fontSize * 0.55));
+	if (label.length <= maxChars) return label;
+	if (maxChars < 2) return '';
+	return `${label.slice(0, maxChars - 1)}…`;
+}
+
+/**
+ * Assign each duration annotation a lane so overlapping spans sit on separate lines.
+ * Lanes are shared by the whole song, so a span keeps its lane from row to row.
+ */
+export function assignLanes(spans: Annotation[]): Map<string, number> {
+	const laneEnds: number[] = [];
+	const lanes = new Map<string, number>();
+	for (const span of [...spans].sort((a, b) => a.startTimeMs - b.startTimeMs)) {
+		let lane = laneEnds.findIndex((end) => end <= span.startTimeMs);
+		if (lane === -1) lane = laneEnds.length;
+		laneEnds[lane] = span.endTimeMs;
+		lanes.set(span.id, lane);
+	}
+	return lanes;
+}
+
+/**
+ * Annotation groups in order of first appearance, named by their label without the number
+ */
+export function getLegendEntries(annotations: Annotation[]): SheetLegendEntry[] {
+	const entries = new Map<string, SheetLegendEntry>();
+	for (const annotation of [...annotations].sort((a, b) => a.startTimeMs - b.startTimeMs)) {
+		const key = getGroupKey(annotation.label);
+		const entry = entries.get(key);
+		if (entry) {
+			entry.count++;
+		} else {
+			const { baseName } = parseAnnotationGroup(annotation.label);
+			entries.set(key, { name: baseName, color: annotation.color, count: 1 });
+		}
+	}
+	return [...entries.values()];
+}
+
+function formatDuration(ms: number): string {
+	const totalSeconds = Math.round(ms / 1000);
+	return `${Math.floor(totalSeconds / 60)}:${(totalSeconds % 60).toString().padStart(2, '0')}`;
+}
+
+function headerBlock(input: StructureSheetInput): SheetBlock {
+	const details = [
+		input.artist,
+		input.tempoMap?.length
+			? `${Math.round(input.bpm * 100) / 100} BPM at the start, ${input.tempoMap.length} tempo change${input.tempoMap.length === 1 ? '' : 's'}`
+			: `${Math.round(input.bpm * 100) / 100} BPM`,
+		`${input.beatsPerLine} beats per line`,
+		formatDuration(input.durationMs)
+	].filter(Boolean);
+	return {
+		height: 64,
+		body:
+			text(MARGIN, 34, input.title, { size: 20, weight: 'bold' }) +
+			text(MARGIN, 52, details.join(' · '), { size: 11, color: MUTED_COLOR })
+	};
+}
+
+function rowBlock(
+	input: StructureSheetInput,
+	rowIndex: number,
+	beatTime: (beat: number) => number,
+	spans: Annotation[],
+	points: Annotation[],
+	lanes: Map<string, number>,
+	laneCount: number
+): SheetBlock {
+	const firstBeat = rowIndex * input.beatsPerLine;
+	const rowStartMs = beatTime(firstBeat);
+	const rowEndMs = beatTime(firstBeat + input.beatsPerLine);
+	const toX = (ms: number) => GRID_X + ((ms - rowStartMs) / (rowEndMs - rowStartMs)) * GRID_WIDTH;
+
+	const markerTop = BEAT_HEADER_HEIGHT;
+	const laneTop = markerTop + (points.length > 0 ? MARKER_STRIP_HEIGHT : 0);
+	const gridBottom = laneTop + laneCount * LANE_HEIGHT;
+	const parts: string[] = [];
+
+	// Time outside the audio (before it starts or after it ends) is shaded
+	if (rowStartMs < 0) {
+		parts.push(
+			`<rect x="${GRID_X}" y="${markerTop}" width="${num(toX(0) - GRID_X)}" height="${gridBottom - markerTop}" fill="#f3f4f6"/>`
+		);
+	}
+	if (rowEndMs > input.durationMs) {
+		const endX = Math.max(GRID_X, toX(input.durationMs));
+		parts.push(
+			`<rect x="${num(endX)}" y="${markerTop}" width="${num(GRID_X + GRID_WIDTH - endX)}" height="${gridBottom - markerTop}" fill="#f3f4f6"/>`
+		);
+	}
+
+	const firstBar = Math.floor(firstBeat / BEATS_PER_BAR) + 1;
+	if (firstBar >= 1) {
+		parts.push(text(MARGIN, markerTop - 2, `Bar ${firstBar}`, { color: MUTED_COLOR }));
+	}
+
+	for (let i = 0; i < input.beatsPerLine; i++) {
+		const beat = firstBeat + i;
+		const x = toX(beatTime(beat));
+		const count = ((beat % BEATS_PER_EIGHT_COUNT) + BEATS_PER_EIGHT_COUNT) % BEATS_PER_EIGHT_COUNT;
+		const isBarStart = beat % BEATS_PER_BAR === 0;
+
+		if (isBarStart && beat >= 0) {
+			parts.push(
+				text(x + 2, 10, String(Math.floor(beat / BEATS_PER_BAR) + 1), {
+					size: 8,
+					color: MUTED_COLOR
+				})
+			);
+		}
+		parts.push(
+			text(x + 2, markerTop - 3, String(count + 1), { weight: count === 0 ? 'bold' : undefined })
+		);
+		parts.push(
+			line(
+				x,
+				12,
+				x,
+				gridBottom,
+				count === 0 ? '#374151' : isBarStart ? '#9ca3af' : '#e5e7eb',
+				count === 0 ? 1.5 : 1
+			)
+		);
+	}
+	parts.push(line(GRID_X + GRID_WIDTH, 12, GRID_X + GRID_WIDTH, gridBottom, '#e5e7eb'));
+	parts.push(line(GRID_X, gridBottom, GRID_X + GRID_WIDTH, gridBottom, '#d1d5db'));
+
+	for (const span of spans) {
+		if (span.endTimeMs <= rowStartMs || span.startTimeMs >= rowEndMs) continue;
+		const startX = toX(Math.max(span.startTimeMs, rowStartMs));
+		const endX = toX(Math.min(span.endTimeMs, rowEndMs));
+		const y = laneTop + (lanes.get(span.id) ?? 0) * LANE_HEIGHT + 2;
+		const color = safeColor(span.color);
+		// Label the span where it starts, and again at the start of each row it continues into
+		const label = span.startTimeMs >= rowStartMs ? span.label : `(${span.label})`;
+
+		parts.push(
+			`<rect x="${num(startX)}" y="${y}" width="${num(Math.max(1, endX - startX))}" height="${LANE_HEIGHT - 4}" rx="2" fill="${color}" fill-opacity="0.35" stroke="${color}"/>`
+		);
+		const fitted = fitLabel(label, endX - startX - 6);
+		if (fitted) parts.push(text(startX + 3, y + LANE_HEIGHT - 8, fitted));
+	}
+
+	const rowPoints = points.filter(
+		(point) => point.startTimeMs >= rowStartMs && point.startTimeMs < rowEndMs
+	);
+	for (const [index, point] of rowPoints.entries()) {
+		const x = toX(point.startTimeMs);
+		const color = safeColor(point.color);
+		const nextX =
+			index + 1 < rowPoints.length ? toX(rowPoints[index + 1].startTimeMs) : GRID_X + GRID_WIDTH;
+		parts.push(line(x, markerTop, x, gridBottom, color, 2));
+		parts.push(
+			`<path d="M ${num(x - 4)} ${markerTop} L ${num(x + 4)} ${markerTop} L ${num(x)} ${markerTop + 6} Z" fill="${color}"/>`
+		);
+		const fitted = fitLabel(point.label, nextX - x - 8, 9);
+		if (fitted) parts.push(text(x + 6, markerTop + 11, fitted, { size: 9 }));
+	}
+
+	return { height: gridBottom + ROW_GAP, body: parts.join('') };
+}
+
+function legendBlock(entries: SheetLegendEntry[]): SheetBlock {
+	const parts = [text(MARGIN, 20, 'Legend', { size: 12, weight: 'bold' })];
+	const columnWidth = (SHEET_WIDTH - 2 * MARGIN) / 3;
+	entries.forEach((entry, index) => {
+		const x = MARGIN + (index % 3) * columnWidth;
+		const y = 32 + Math.floor(index / 3) * 20;
+		const color = safeColor(entry.color);
+		parts.push(
+			`<rect x="${num(x)}" y="${y}" width="14" height="12" rx="2" fill="${color}" fill-opacity="0.35" stroke="${color}"/>`
+		);
+		parts.push(
+			text(x + 20, y + 10, fitLabel(`${entry.name} (${entry.count})`, columnWidth - 28, 11), {
+				size: 11
+			})
+		);
+	});
+	return { height: 32 + Math.ceil(entries.length / 3) * 20 + 8, body: parts.join('') };
+}
+
+/**
+ * Lay out the sheet. Rows start on the grid's first beat; when the audio starts before it,
+ * a leading row holds the pickup, like the on-screen view.
+ * @throws Error if the session has no tempo
+ */
+export function buildStructureSheet(input: StructureSheetInput): StructureSheet {
+	if (input.bpm <= 0) {
+		throw new Error('Set the tempo before exporting a structure sheet');
+	}
+	const beatsPerLine = Math.max(1, Math.round(input.beatsPerLine));
+	const sheetInput = { ...input, beatsPerLine };
+
+	const spans = input.annotations.filter(
+		(annotation) => !annotation.isPoint && annotation.endTimeMs > annotation.startTimeMs
+	);
+	const points = input.annotations
+		.filter((annotation) => !spans.includes(annotation))
+		.sort((a, b) => a.startTimeMs - b.startTimeMs);
+	const lanes = assignLanes(spans);
+	const laneCount = Math.max(1, ...[...lanes.values()].map((lane) => lane + 1));
+
+	// Rows are counted from the first beat inside the track, following the tempo map
+	const firstBeat = firstBeatMs(input.beatOffset, input.bpm);
+	const grid = startGridAtBeat(
+		{ bpm: input.bpm, tempoMap: input.tempoMap },
+		input.beatOffset < 0 ? 1 : 0
+	);
+	const beatTime = (beat: number) => firstBeat + beatsToSeconds(beat, grid) * 1000;
+	const endMs = Math.max(
+		input.durationMs,
+		...input.annotations.map((annotation) => annotation.endTimeMs)
+	);
+
+	const blocks = [headerBlock(sheetInput)];
+	for (let row = firstBeat > 0 ? -1 : 0; beatTime(row * beatsPerLine) < endMs; row++) {
+		blocks.push(rowBlock(sheetInput, row, beatTime, spans, points, lanes, laneCount));
+	}
+
+	const legend = getLegendEntries(input.annotations);
+	if (legend.length > 0) blocks.push(legendBlock(legend));
+
+	return { title: input.title, blocks };
+}
+
+/**
+ * One SVG with the blocks stacked top to bottom
+ */
+export function formatStructureSheetSvg(sheet: StructureSheet): string {
+	let y = 0;
+	const groups = sheet.blocks.map((block) => {
+		const group = `<g transform="translate(0 ${num(y)})">${block.body}</g>`;
+		y += block.height;
+		return group;
+	});
+	const height = num(y + MARGIN);
+	return (
+		`<?xml version="1.0" encoding="UTF-8"?>\n` +
+		`<svg xmlns="http://www.w3.org/2000/svg" width="${SHEET_WIDTH}" height="${height}" viewBox="0 0 ${SHEET_WIDTH} ${height}" font-family="Helvetica, Arial, sans-serif">` +
+		`<title>${escapeXml(sheet.title)}</title>` +
+		`<rect width="100%" height="100%" fill="#ffffff"/>` +
+		groups.join('') +
+		`</svg>\n`
+	);
+}
+
+/**
+ * HTML page for printing or saving as PDF: each block is its own SVG, so pages break between rows
+ */
+export function formatStructureSheetHtml(sheet: StructureSheet): string {
+	const blocks = sheet.blocks.map(
+		(block) =>
+			`<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${SHEET_WIDTH} ${num(block.height)}">${block.body}</svg>`
+	);
+	return [
+		'<!DOCTYPE html>',
+		'<html>',
+		'<head>',
+		'<meta charset="utf-8">',
+		`<title>${escapeXml(sheet.title)}</title>`,
+		'<style>',
+		'@page { size: A4; margin: 10mm; }',
+		'body { margin: 0; font-family: Helvetica, Arial, sans-serif; }',
+		'svg { display: block; width: 100%; height: auto; break-inside: avoid; }',
+		'</style>',
+		'</head>',
+		'<body>',
+		...blocks,
+		'</body>',
+		'</html>',
+		''
+	].join('\n');
+}
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { generateBeats } from './beatGrid';
+import {
+	getChunkCount,
+	getChunkFirstBeat,
+	getChunkIndexAtTime,
+	getChunkStartTime,
+	getSongStartFraction,
+	hasPreSongChunk,
+	type WaveformConfig
+} from './svgWaveform';
+
+function config(overrides: Partial<WaveformConfig> = {}): WaveformConfig {
+	return {
+		width: 800,
+		height: 100,
+		sampleRate: 44100,
+		audioDuration: 10,
+		beatOffset: 0,
+		chunkDuration: 2,
+		beatsPerChunk: 4,
+		...overrides
+	};
+}
+
+describe('chunk layout', () => {
+	it('starts chunk 0 with the audio when the first beat is at 0', () => {
+		const layout = config({ beats: generateBeats(120, 0, 10) });
+		expect(hasPreSongChunk(layout)).toBe(false);
+		expect(getChunkStartTime(1, layout)).toBeCloseTo(2);
+		expect(getChunkIndexAtTime(3, layout)).toBe(1);
+		expect(getChunkCount(layout)).toBe(5);
+	});
+
+	it('puts the audio before the first beat in the pre-song chunk', () => {
+		const layout = config({ beatOffset: 500, beats: generateBeats(120, 500, 10) });
+		expect(hasPreSongChunk(layout)).toBe(true);
+		expect(getChunkStartTime(0, layout)).toBeCloseTo(0.5);
+		expect(getChunkStartTime(-1, layout)).toBeCloseTo(-1.5);
+		expect(getSongStartFraction(layout)).toBeCloseTo(0.75);
+		expect(getChunkIndexAtTime(0.2, layout)).toBe(-1);
+		expect(getChunkCount(layout)).toBe(5);
+	});
+
+	it('lays out a constant grid from the beat offset without beats', () => {
+		const layout = config({ beatOffset: 500 });
+		expect(hasPreSongChunk(layout)).toBe(true);
+		expect(getChunkStartTime(2, layout)).toBeCloseTo(4.5);
+		expect(getChunkFirstBeat(2, layout)).toBe(8);
+	});
+
+	it('keeps the rows before a tempo change where they are without a tempo map', () => {
+		const plain = config({ beatOffset: 500, beats: generateBeats(120, 500, 10) });
+		const sameTempo = config({
+			beatOffset: 500,
+			beats: generateBeats(120, 500, 10, [{ startBeat: 0, bpm: 120 }])
+		});
+		const faster = config({
+			beatOffset: 500,
+			beats: generateBeats(120, 500, 10, [{ startBeat: 8, bpm: 240 }])
+		});
+
+		for (const chunkIndex of [-1, 0, 1, 2]) {
+			expect(getChunkStartTime(chunkIndex, sameTempo)).toBeCloseTo(
+				getChunkStartTime(chunkIndex, plain)
+			);
+		}
+		// Beat 8 starts chunk 2: rows up to there stay put, later ones are shorter
+		for (const chunkIndex of [-1, 0, 1, 2]) {
+			expect(getChunkStartTime(chunkIndex, faster)).toBeCloseTo(
+				getChunkStartTime(chunkIndex, plain)
+			);
+		}
+		expect(getChunkStartTime(3, faster) - getChunkStartTime(2, faster)).toBeCloseTo(1);
+	});
+
+	it('follows pinned beats', () => {
+		const beats = generateBeats(120, 0, 10, undefined, [
+			{ beatIndex: 0, time: 0 },
+			{ beatIndex: 4, time: 2.4 }
+		]);
+		const layout = config({ beats });
+		expect(getChunkStartTime(1, layout)).toBeCloseTo(2.4);
+		expect(getChunkStartTime(2, layout)).toBeCloseTo(4.4);
+		expect(getChunkIndexAtTime(2.3, layout)).toBe(0);
+	});
+});
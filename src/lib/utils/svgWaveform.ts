@@ -4,7 +4,8 @@
  * (Used by both SVG legacy code and Canvas renderer)
  */
 
-import type { Annotation } from '../types';
+import type { Annotation, Beat } from '../types';
+import { getBeatPosition, getBeatTime } from './beatGrid';
 
 export interface ChunkBounds {
 	startSample: number;
@@ -20,6 +21,94 @@ export interface WaveformConfig {
 	audioDuration: number;
 	beatOffset: number;
 	chunkDuration: number;
+	beatsPerChunk: number;
+	beats?: Beat[]; // The session's beat grid; chunks start on its beats
+}
+
+// The part of the config that decides where chunks start
+export type ChunkLayout = Pick<WaveformConfig, 'beatOffset' | 'chunkDuration' | 'beatsPerChunk' | 'beats'>;
+
+// Chunk boundaries this close to the start of the audio count as starting with it
+const LAYOUT_EPSILON_SECONDS = 0.001;
+
+/**
+ * Chunks hold whole lines of beats from the session's beat grid. A line that starts before
+ * the audio becomes the pre-song chunk -1; chunk 0 is the line after it.
+ * Without a usable grid, beats are laid out from the beat offset at a constant tempo.
+ */
+function getLineLayout(config: ChunkLayout) {
+	const { beatOffset, chunkDuration, beatsPerChunk } = config;
+	const beatDuration = chunkDuration / beatsPerChunk;
+	const beats =
+		config.beats && config.beats.length >= 2
+			? config.beats
+			: [
+					{ index: 0, time: beatOffset / 1000 },
+					{ index: 1, time: beatOffset / 1000 + beatDuration }
+				];
+
+	const lineStartTime = (line: number) => getBeatTime(beats, line * beatsPerChunk);
+	const firstLine = Math.floor(getBeatPosition(beats, 0) / beatsPerChunk + 1e-9);
+	const hasPreSong = lineStartTime(firstLine) < -LAYOUT_EPSILON_SECONDS;
+
+	return {
+		beats,
+		lineStartTime,
+		hasPreSong,
+		chunkZeroLine: hasPreSong ? firstLine + 1 : firstLine
+	};
+}
+
+/**
+ * Whether the audio starts partway through a line, shown as the pre-song chunk -1
+ */
+export function hasPreSongChunk(config: ChunkLayout): boolean {
+	return getLineLayout(config).hasPreSong;
+}
+
+/**
+ * Beat index (in the session's grid) a chunk starts on
+ */
+export function getChunkFirstBeat(chunkIndex: number, config: ChunkLayout): number {
+	return (getLineLayout(config).chunkZeroLine + chunkIndex) * config.beatsPerChunk;
+}
+
+/**
+ * Start time in seconds of a chunk on the beat grid. For the pre-song chunk -1 this is
+ * before the audio (negative).
+ */
+export function getChunkStartTime(chunkIndex: number, config: ChunkLayout): number {
+	const layout = getLineLayout(config);
+	return layout.lineStartTime(layout.chunkZeroLine + chunkIndex);
+}
+
+/**
+ * Chunk containing a time, or -1 for the pre-song chunk
+ */
+export function getChunkIndexAtTime(timeSeconds: number, config: ChunkLayout): number {
+	const layout = getLineLayout(config);
+	const line = Math.floor(getBeatPosition(layout.beats, timeSeconds) / config.beatsPerChunk + 1e-9);
+	return Math.max(layout.hasPreSong ? -1 : 0, line - layout.chunkZeroLine);
+}
+
+/**
+ * Number of regular chunks needed to cover the audio
+ */
+export function getChunkCount(config: ChunkLayout & Pick<WaveformConfig, 'audioDuration'>): number {
+	const layout = getLineLayout(config);
+	const lastLine = Math.ceil(getBeatPosition(layout.beats, config.audioDuration) / config.beatsPerChunk - 1e-9);
+	return Math.max(0, lastLine - layout.chunkZeroLine);
+}
+
+/**
+ * Where the audio starts in the pre-song chunk, as a fraction (0-1) of its width
+ */
+export function getSongStartFraction(config: ChunkLayout): number {
+	const layout = getLineLayout(config);
+	if (!layout.hasPreSong) return 0;
+	const start = layout.lineStartTime(layout.chunkZeroLine - 1);
+	const end = layout.lineStartTime(layout.chunkZeroLine);
+	return -start / (end - start);
 }
 
 /**
@@ -29,49 +118,11 @@ export function calculateChunkBounds(
 	chunkIndex: number,
 	config: WaveformConfig
 ): ChunkBounds {
-	const { sampleRate, audioDuration, beatOffset, chunkDuration } = config;
-	
-	let chunkStartTime: number;
-	let chunkEndTime: number;
-	
-	if (chunkIndex === -1) {
-		// Special pre-song chunk - represents time before song starts
-		// This chunk shows the transition from "no audio" to "audio starts"
-		if (beatOffset > 0) {
-			// Positive offset: song starts partway through the chunk
-			// We need audio from 0 to (chunkDuration - offsetInSeconds)
-			const offsetInSeconds = beatOffset / 1000;
-			chunkStartTime = 0;
-			chunkEndTime = chunkDuration - offsetInSeconds;
-		} else if (beatOffset < 0) {
-			// Negative offset: chunk -1 shows only the first bit of audio
-			// that gets "pushed into" the pre-song space
-			const offsetInSeconds = Math.abs(beatOffset) / 1000;
-			chunkStartTime = 0;
-			chunkEndTime = offsetInSeconds; // Only show this much audio
-		} else {
-			// No offset - chunk -1 shouldn't exist, but handle gracefully
-			chunkStartTime = 0;
-			chunkEndTime = 0;
-		}
-	} else {
-		if (beatOffset > 0) {
-			const offsetInSeconds = beatOffset / 1000;
-			chunkStartTime = chunkDuration - offsetInSeconds + chunkIndex * chunkDuration;
-			chunkEndTime = chunkDuration - offsetInSeconds + (chunkIndex + 1) * chunkDuration;
-		} else if (beatOffset < 0) {
-			const offsetInSeconds = Math.abs(beatOffset) / 1000;
-			chunkStartTime = chunkIndex * chunkDuration + offsetInSeconds;
-			chunkEndTime = (chunkIndex + 1) * chunkDuration + offsetInSeconds;
-		} else {
-			chunkStartTime = chunkIndex * chunkDuration;
-			chunkEndTime = (chunkIndex + 1) * chunkDuration;
-		}
-	}
+	const { sampleRate, audioDuration } = config;
 	
-	// Ensure we don't go beyond audio bounds
-	chunkStartTime = Math.max(0, chunkStartTime);
-	chunkEndTime = Math.min(audioDuration, chunkEndTime);
+	// The pre-song chunk -1 starts before the audio, so its bounds cover only the audible part
+	const chunkStartTime = Math.max(0, getChunkStartTime(chunkIndex, config));
+	const chunkEndTime = Math.min(audioDuration, getChunkStartTime(chunkIndex + 1, config));
 	
 	const startSample = Math.floor(chunkStartTime * sampleRate);
 	const endSample = Math.floor(chunkEndTime * sampleRate);
@@ -168,13 +219,12 @@ export function generateWaveformBars(
 	height: number,
 	targetBars: number = 100,
 	chunkIndex?: number,
-	beatOffset?: number,
-	chunkDuration?: number,
+	songStartFraction?: number,
 	annotations?: Array<Annotation & { stackPosition?: number }>
 ): Array<WaveformBar> {
-	// Special handling for chunk -1 (pre-song chunk with offset)
-	if (chunkIndex === -1 && beatOffset !== undefined && chunkDuration !== undefined) {
-		return generatePreSongChunkBars(peaksData, bounds, width, height, targetBars, beatOffset, chunkDuration, annotations);
+	// Special handling for chunk -1 (pre-song chunk)
+	if (chunkIndex === -1 && songStartFraction !== undefined) {
+		return generatePreSongChunkBars(peaksData, bounds, width, height, targetBars, songStartFraction, annotations);
 	}
 
 	const { startSample, endSample, startTimeMs, endTimeMs } = bounds;
@@ -200,7 +250,7 @@ export function generateWaveformBars(
 }
 
 /**
- * Generate waveform bars for chunk -1 (pre-song chunk with offset)
+ * Generate waveform bars for chunk -1 (pre-song chunk)
  */
 function generatePreSongChunkBars(
 	peaksData: Float32Array,
@@ -208,94 +258,68 @@ function generatePreSongChunkBars(
 	width: number,
 	height: number,
 	targetBars: number,
-	beatOffset: number,
-	chunkDuration: number,
+	songStartFraction: number,
 	annotations?: Array<Annotation & { stackPosition?: number }>
 ): Array<WaveformBar> {
 	const barWidth = width / targetBars;
-	const offsetInSeconds = Math.abs(beatOffset) / 1000;
 	const { startTimeMs, endTimeMs } = bounds;
 	const chunkDurationMs = endTimeMs - startTimeMs;
 	const barDurationMs = chunkDurationMs / targetBars;
 
-	if (beatOffset > 0) {
-		// Positive offset: song appears after the offset time
-		const songStartPosition = offsetInSeconds / chunkDuration;
-		const songStartBar = Math.floor(songStartPosition * targetBars);
-
-		// Only generate song bars, no empty bars (empty area handled by canvas drawing)
-		const bars: Array<WaveformBar> = [];
-		const songBarsCount = targetBars - songStartBar;
-
-		if (songBarsCount > 0 && bounds.endSample > bounds.startSample) {
-			const songPeaks = downsamplePeaks(peaksData, bounds.startSample, bounds.endSample, songBarsCount);
-
-			songPeaks.forEach((bar, index) => {
-				const amplitude = Math.max(Math.abs(bar.min), Math.abs(bar.max));
-				const barHeight = amplitude * height;
-				const barTimeMs = startTimeMs + ((songStartBar + index) * barDurationMs);
-
-				bars.push({
-					x: (songStartBar + index) * barWidth,
-					y: height - barHeight, // Position from bottom
-					width: Math.max(1, barWidth - 1),
-					height: Math.max(1, barHeight),
-					isEmpty: false,
-					annotationColors: annotations ? getBarAnnotations(barTimeMs, barDurationMs, annotations, height) : undefined
-				});
-			});
-		}
+	// Song appears after the empty space before the audio starts
+	const songStartBar = Math.floor(songStartFraction * targetBars);
 
-		return bars;
-	} else if (beatOffset < 0) {
-		// Negative offset: song appears after empty space
-		const songPosition = (chunkDuration - offsetInSeconds) / chunkDuration;
-		const songStartBar = Math.floor(songPosition * targetBars);
-
-		// Only generate song bars, no empty bars (empty area handled by canvas drawing)
-		const bars: Array<WaveformBar> = [];
-		const songBarsCount = targetBars - songStartBar;
-
-		if (songBarsCount > 0 && bounds.endSample > bounds.startSample) {
-			const songPeaks = downsamplePeaks(peaksData, bounds.startSample, bounds.endSample, songBarsCount);
-
-			songPeaks.forEach((bar, index) => {
-				const amplitude = Math.max(Math.abs(bar.min), Math.abs(bar.max));
-				const barHeight = amplitude * height;
-				const barTimeMs = startTimeMs + ((songStartBar + index) * barDurationMs);
-
-				bars.push({
-					x: (songStartBar + index) * barWidth,
-					y: height - barHeight, // Position from bottom
-					width: Math.max(1, barWidth - 1),
-					height: Math.max(1, barHeight),
-					isEmpty: false,
-					annotationColors: annotations ? getBarAnnotations(barTimeMs, barDurationMs, annotations, height) : undefined
-				});
-			});
-		}
+	// Only generate song bars, no empty bars (empty area handled by canvas drawing)
+	const bars: Array<WaveformBar> = [];
+	const songBarsCount = targetBars - songStartBar;
+
+	if (songBarsCount > 0 && bounds.endSample > bounds.startSample) {
+		const songPeaks = downsamplePeaks(peaksData, bounds.startSample, bounds.endSample, songBarsCount);
+
+		songPeaks.forEach((bar, index) => {
+			const amplitude = Math.max(Math.abs(bar.min), Math.abs(bar.max));
+			const barHeight = amplitude * height;
+			const barTimeMs = startTimeMs + ((songStartBar + index) * barDurationMs);
 
-		return bars;
+			bars.push({
+				x: (songStartBar + index) * barWidth,
+				y: height - barHeight, // Position from bottom
+				width: Math.max(1, barWidth - 1),
+				height: Math.max(1, barHeight),
+				isEmpty: false,
+				annotationColors: annotations ? getBarAnnotations(barTimeMs, barDurationMs, annotations, height) : undefined
+			});
+		});
 	}
 
-	// Fallback - shouldn't reach here for chunk -1
-	return [];
+	return bars;
 }
 
 /**
- * Generate beat grid lines for a chunk
+ * X position of a (possibly fractional) beat of the grid within a chunk's row
+ */
+export function getBeatX(beat: number, chunkIndex: number, config: WaveformConfig): number {
+	const layout = getLineLayout(config);
+	const start = layout.lineStartTime(layout.chunkZeroLine + chunkIndex);
+	const end = layout.lineStartTime(layout.chunkZeroLine + chunkIndex + 1);
+	return ((getBeatTime(layout.beats, beat) - start) / (end - start)) * config.width;
+}
+
+/**
+ * Generate beat grid lines for a chunk, placed on the beats of the grid
  */
 export function generateBeatGrid(
-	beatsPerChunk: number,
-	width: number,
-	_height: number
+	chunkIndex: number,
+	config: WaveformConfig
 ): Array<{ x: number; type: 'quarter' | 'beat' | 'half-beat' }> {
 	const lines: Array<{ x: number; type: 'quarter' | 'beat' | 'half-beat' }> = [];
+	const { beatsPerChunk } = config;
+	const firstBeat = getChunkFirstBeat(chunkIndex, config);
 	
 	// Generate both beat and half-beat lines
 	// We iterate through half-beat increments (0.5, 1, 1.5, 2, etc.)
 	for (let i = 0.5; i < beatsPerChunk; i += 0.5) {
-		const x = (i / beatsPerChunk) * width;
+		const x = getBeatX(firstBeat + i, chunkIndex, config);
 		
 		let type: 'quarter' | 'beat' | 'half-beat';
 		if (i % 4 === 0) {
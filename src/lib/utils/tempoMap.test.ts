@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import {
+	beatsToSeconds,
+	getBpmAtBeat,
+	getTempoSegments,
+	hasTempoChanges,
+	normalizeTempoMap,
+	secondsToBeats
+} from './tempoMap';
+import { generateBeats } from './beatGrid';
+
+// 120 BPM for 8 beats (4 s), then 60 BPM
+const grid = { bpm: 120, tempoMap: [{ startBeat: 8, bpm: 60 }] };
+
+describe('normalizeTempoMap', () => {
+	it('sorts, rounds start beats and drops invalid or duplicate changes', () => {
+		expect(
+			normalizeTempoMap([
+				{ startBeat: 16.2, bpm: 90 },
+				{ startBeat: 0, bpm: 100 },
+				{ startBeat: 8, bpm: -1 },
+				{ startBeat: 4, bpm: 110 },
+				{ startBeat: 4, bpm: 115 }
+			])
+		).toEqual([
+			{ startBeat: 4, bpm: 115 },
+			{ startBeat: 16, bpm: 90 }
+		]);
+	});
+
+	it('treats a missing or empty map as no tempo changes', () => {
+		expect(hasTempoChanges(undefined)).toBe(false);
+		expect(hasTempoChanges([])).toBe(false);
+		expect(hasTempoChanges(grid.tempoMap)).toBe(true);
+	});
+});
+
+describe('tempo map conversions', () => {
+	it('accumulates the time of each section', () => {
+		expect(getTempoSegments(grid)).toEqual([
+			{ startBeat: 0, bpm: 120, startSeconds: 0 },
+			{ startBeat: 8, bpm: 60, startSeconds: 4 }
+		]);
+	});
+
+	it('converts beats to seconds across tempo changes and back', () => {
+		expect(beatsToSeconds(4, grid)).toBe(2);
+		expect(beatsToSeconds(10, grid)).toBe(6);
+		expect(beatsToSeconds(-2, grid)).toBe(-1);
+		expect(secondsToBeats(6, grid)).toBe(10);
+		expect(secondsToBeats(-1, grid)).toBe(-2);
+		expect(getBpmAtBeat(7.5, grid)).toBe(120);
+		expect(getBpmAtBeat(8, grid)).toBe(60);
+	});
+
+	it('matches constant tempo without a map', () => {
+		expect(beatsToSeconds(3, { bpm: 90 })).toBeCloseTo(2);
+		expect(secondsToBeats(2, { bpm: 90 })).toBeCloseTo(3);
+	});
+});
+
+describe('generateBeats', () => {
+	it('places beats at the current tempo of each section', () => {
+		const beats = generateBeats(120, 500, 7, grid.tempoMap);
+		expect(beats.map((beat) => beat.time)).toEqual([0.5, 1, 1.5, 2, 2.5, 3, 3.5, 4, 4.5, 5.5, 6.5]);
+	});
+
+	it('keeps the constant grid when there are no tempo changes', () => {
+		expect(generateBeats(120, 0, 2).map((beat) => beat.time)).toEqual([0, 0.5, 1, 1.5]);
+	});
+});
@@ -0,0 +1,111 @@
+/**
+ * Tempo maps for songs whose tempo changes
+ * A grid starts at the session's BPM and switches tempo at the start beat of each
+ * section. Beats are counted from the first beat of the grid; times here are relative
+ * to that beat, so callers add the grid's own anchor (the beat offset).
+ * Beats before the first one continue at the starting tempo.
+ */
+
+import type { TempoSection } from '../types';
+
+export interface TempoGrid {
+	bpm: number;
+	tempoMap?: TempoSection[];
+}
+
+export interface TempoSegment extends TempoSection {
+	startSeconds: number; // Time of startBeat relative to the first beat
+}
+
+/**
+ * Clean up a tempo map: whole start beats after the first beat, positive tempos,
+ * one change per beat (the last one wins), in beat order
+ */
+export function normalizeTempoMap(sections: TempoSection[]): TempoSection[] {
+	const byBeat = new Map<number, number>();
+	for (const section of sections) {
+		const startBeat = Math.round(section.startBeat);
+		if (!Number.isFinite(startBeat) || startBeat <= 0) continue;
+		if (!Number.isFinite(section.bpm) || section.bpm <= 0) continue;
+		byBeat.set(startBeat, section.bpm);
+	}
+	return [...byBeat.entries()]
+		.sort((a, b) => a[0] - b[0])
+		.map(([startBeat, bpm]) => ({ startBeat, bpm }));
+}
+
+/**
+ * Whether a tempo map has any changes, so callers can keep their constant-tempo path otherwise
+ */
+export function hasTempoChanges(tempoMap: TempoSection[] | undefined): tempoMap is TempoSection[] {
+	return !!tempoMap && tempoMap.length > 0;
+}
+
+/**
+ * The grid's constant-tempo stretches, starting with the session BPM at beat 0
+ */
+export function getTempoSegments(grid: TempoGrid): TempoSegment[] {
+	const segments: TempoSegment[] = [{ startBeat: 0, bpm: grid.bpm, startSeconds: 0 }];
+	for (const section of normalizeTempoMap(grid.tempoMap ?? [])) {
+		const previous = segments[segments.length - 1];
+		segments.push({
+			...section,
+			startSeconds:
+				previous.startSeconds + ((section.startBeat - previous.startBeat) * 60) / previous.bpm
+		});
+	}
+	return segments;
+}
+
+function segmentAtBeat(segments: TempoSegment[], beat: number): TempoSegment {
+	let segment = segments[0];
+	for (const candidate of segments) {
+		if (candidate.startBeat > beat) break;
+		segment = candidate;
+	}
+	return segment;
+}
+
+/**
+ * Tempo in effect at a beat
+ */
+export function getBpmAtBeat(beat: number, grid: TempoGrid): number {
+	return segmentAtBeat(getTempoSegments(grid), beat).bpm;
+}
+
+/**
+ * Seconds from the first beat to a (possibly fractional or negative) beat
+ */
+export function beatsToSeconds(beat: number, grid: TempoGrid): number {
+	if (grid.bpm <= 0) return 0;
+	const segment = segmentAtBeat(getTempoSegments(grid), beat);
+	return segment.startSeconds + ((beat - segment.startBeat) * 60) / segment.bpm;
+}
+
+/**
+ * Beats from the first beat to a time in seconds (relative to the first beat), the inverse of beatsToSeconds
+ */
+export function secondsToBeats(seconds: number, grid: TempoGrid): number {
+	if (grid.bpm <= 0) return 0;
+	const segments = getTempoSegments(grid);
+	let segment = segments[0];
+	for (const candidate of segments) {
+		if (candidate.startSeconds > seconds) break;
+		segment = candidate;
+	}
+	return segment.startBeat + ((seconds - segment.startSeconds) * segment.bpm) / 60;
+}
+
+/**
+ * The same grid counted from a later beat: its tempo there becomes the starting tempo.
+ * Exports whose first beat has to fall inside the track start from beat 1 when beat 0 is before it.
+ */
+export function startGridAtBeat(grid: TempoGrid, beat: number): TempoGrid {
+	if (beat <= 0) return { bpm: grid.bpm, tempoMap: normalizeTempoMap(grid.tempoMap ?? []) };
+	return {
+		bpm: getBpmAtBeat(beat, grid),
+		tempoMap: normalizeTempoMap(grid.tempoMap ?? [])
+			.filter((section) => section.startBeat > beat)
+			.map((section) => ({ startBeat: section.startBeat - beat, bpm: section.bpm }))
+	};
+}
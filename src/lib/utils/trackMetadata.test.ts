@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import {
+	dataUrlToBlob,
+	formatTrackTitle,
+	MAX_COVER_ART_BYTES,
+	toTrackMetadata
+} from './trackMetadata';
+
+describe('toTrackMetadata', () => {
+	it('keeps non-empty text tags and falls back to the album artist', () => {
+		expect(
+			toTrackMetadata({
+				title: ' Vivir Mi Vida ',
+				artist: '',
+				albumArtist: 'Marc Anthony',
+				genre: 'Salsa'
+			})
+		).toEqual({ title: 'Vivir Mi Vida', artist: 'Marc Anthony', genre: 'Salsa' });
+	});
+
+	it('drops implausible tagged tempos', () => {
+		expect(toTrackMetadata({ beatsPerMinute: 128 }).bpm).toBe(128);
+		expect(toTrackMetadata({ beatsPerMinute: 0 }).bpm).toBeUndefined();
+		expect(toTrackMetadata({ beatsPerMinute: 1000 }).bpm).toBeUndefined();
+	});
+
+	it('prefers the front cover and keeps it as an image blob', async () => {
+		const metadata = toTrackMetadata({
+			images: [
+				{ data: new Uint8Array([1]), mimeType: 'image/png', kind: 'coverBack' },
+				{ data: new Uint8Array([104, 105]), mimeType: 'image/jpeg', kind: 'coverFront' }
+			]
+		});
+		expect(metadata.coverArt?.type).toBe('image/jpeg');
+		expect(Array.from(new Uint8Array(await metadata.coverArt!.arrayBuffer()))).toEqual([104, 105]);
+	});
+
+	it('skips oversized covers', () => {
+		const metadata = toTrackMetadata({
+			images: [
+				{
+					data: new Uint8Array(MAX_COVER_ART_BYTES + 1),
+					mimeType: 'image/jpeg',
+					kind: 'coverFront'
+				}
+			]
+		});
+		expect(metadata.coverArt).toBeUndefined();
+	});
+});
+
+describe('dataUrlToBlob', () => {
+	it('decodes base64 data URLs', async () => {
+		const image = dataUrlToBlob('data:image/png;base64,aGk=');
+		expect(image?.type).toBe('image/png');
+		expect(Array.from(new Uint8Array(await image!.arrayBuffer()))).toEqual([104, 105]);
+	});
+
+	it('rejects anything else', () => {
+		expect(dataUrlToBlob('https://example.com/cover.jpg')).toBeUndefined();
+	});
+});
+
+describe('formatTrackTitle', () => {
+	it('joins artist and title', () => {
+		expect(formatTrackTitle({ artist: 'Romeo Santos', title: 'Propuesta Indecente' })).toBe(
+			'Romeo Santos – Propuesta Indecente'
+		);
+		expect(formatTrackTitle({ title: 'Intro' })).toBe('Intro');
+		expect(formatTrackTitle({})).toBeNull();
+	});
+});
@@ -0,0 +1,91 @@
+/**
+ * Import-time reading of ID3 and container metadata (title, artist, cover art, BPM)
+ */
+
+import { Input, BlobSource, ALL_FORMATS, type MetadataTags } from 'mediabunny';
+import type { TrackMetadata } from '../types';
+
+// Cover art above this size is not stored; the library only shows it as a thumbnail
+export const MAX_COVER_ART_BYTES = 512 * 1024;
+
+// Tagged tempos outside this range are treated as junk
+const MIN_TAGGED_BPM = 20;
+const MAX_TAGGED_BPM = 400;
+
+function cleanText(value: string | undefined): string | undefined {
+	const text = value?.trim();
+	return text ? text : undefined;
+}
+
+/**
+ * Decode a data: URL, the form older versions stored cover art in
+ * @returns the image, or undefined when the URL is not base64 data
+ */
+export function dataUrlToBlob(url: string): Blob | undefined {
+	const match = /^data:([^;,]*);base64,(.*)$/.exec(url);
+	if (!match) return undefined;
+
+	const binary = atob(match[2]);
+	const bytes = new Uint8Array(binary.length);
+	for (let index = 0; index < binary.length; index++) {
+		bytes[index] = binary.charCodeAt(index);
+	}
+	return new Blob([bytes], { type: match[1] || 'image/jpeg' });
+}
+
+/**
+ * Keep the tags the app uses, dropping empty values, implausible tempos and oversized covers.
+ * The front cover is preferred over other embedded images.
+ */
+export function toTrackMetadata(tags: MetadataTags): TrackMetadata {
+	const metadata: TrackMetadata = {};
+
+	const title = cleanText(tags.title);
+	const artist = cleanText(tags.artist) ?? cleanText(tags.albumArtist);
+	const album = cleanText(tags.album);
+	const genre = cleanText(tags.genre);
+	if (title) metadata.title = title;
+	if (artist) metadata.artist = artist;
+	if (album) metadata.album = album;
+	if (genre) metadata.genre = genre;
+
+	const bpm = tags.beatsPerMinute;
+	if (bpm !== undefined && Number.isFinite(bpm) && bpm >= MIN_TAGGED_BPM && bpm <= MAX_TAGGED_BPM) {
+		metadata.bpm = bpm;
+	}
+
+	const images = tags.images ?? [];
+	const cover = images.find((image) => image.kind === 'coverFront') ?? images[0];
+	if (cover && cover.data.byteLength <= MAX_COVER_ART_BYTES) {
+		metadata.coverArt = new Blob([cover.data], { type: cover.mimeType || 'image/jpeg' });
+	}
+
+	return metadata;
+}
+
+/**
+ * Read metadata from an audio file. Files without readable tags yield an empty object.
+ */
+export async function readTrackMetadata(file: Blob): Promise<TrackMetadata> {
+	const input = new Input({
+		source: new BlobSource(file),
+		formats: ALL_FORMATS
+	});
+
+	try {
+		return toTrackMetadata(await input.getMetadataTags());
+	} catch (error) {
+		console.warn('Failed to read track metadata:', error);
+		return {};
+	} finally {
+		input.dispose();
+	}
+}
+
+/**
+ * "Artist – Title" for display, or null when the file had neither tag
+ */
+export function formatTrackTitle(metadata: TrackMetadata | undefined): string | null {
+	if (!metadata?.title && !metadata?.artist) return null;
+	return [metadata.artist, metadata.title].filter(Boolean).join(' – ');
+}
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { formatVirtualDjDatabase, parseVirtualDjDatabase } from './virtualDjXml';
+import { toBeatOffset } from './djTrack';
+
+const database = `<?xml version="1.0" encoding="UTF-8"?>
+<VirtualDJ_Database Version="8.5">
+ <Song FilePath="C:\\Music\\Song.mp3" FileSize="5000000">
+  <Tags Author="Band" Title="Song" Bpm="0.500000" />
+  <Infos SongLength="200.000000" />
+  <Scan Version="801" Bpm="0.500000" Volume="1.0" />
+  <Poi Pos="0.350000" Type="beatgrid" />
+  <Poi Pos="30.000000" Type="automix" Point="realStart" />
+  <Poi Name="Drop" Pos="60.000000" Num="2" Type="cue" Color="#FF0000" />
+  <Poi Pos="10.000000" Num="1" Type="cue" Color="4278255360" />
+  <Poi Pos="80.000000" Size="8.000000" Type="loop" />
+ </Song>
+ <Song FilePath="/Users/me/Other.mp3">
+  <Scan Bpm="0.468750" />
+ </Song>
+</VirtualDJ_Database>`;
+
+describe('parseVirtualDjDatabase', () => {
+	it('reads the beat grid anchor, tempo and cues of each song', () => {
+		const [song, other] = parseVirtualDjDatabase(database);
+
+		expect(song).toMatchObject({
+			title: 'Song',
+			artist: 'Band',
+			filename: 'Song.mp3',
+			bpm: 120,
+			firstBeatMs: 350
+		});
+		expect(song.cues).toEqual([
+			{ name: 'Cue 1', startMs: 10000, color: '#00ff00' },
+			{ name: 'Drop', startMs: 60000, color: '#ff0000' },
+			{ name: 'Loop', startMs: 80000, endMs: 88000, color: undefined }
+		]);
+		expect(other).toMatchObject({ filename: 'Other.mp3', bpm: 128, firstBeatMs: undefined });
+	});
+
+	it('rejects files that are not VirtualDJ databases', () => {
+		expect(() => parseVirtualDjDatabase('<DJ_PLAYLISTS/>')).toThrow('VirtualDJ');
+	});
+});
+
+describe('formatVirtualDjDatabase', () => {
+	it('round-trips the grid and annotations as POIs', () => {
+		const xml = formatVirtualDjDatabase({
+			filename: 'Song (5 stems)',
+			sourceFilename: 'Song.mp3.vdjstems',
+			bpm: 120,
+			beatOffset: -150,
+			annotations: [
+				{ id: 'a', startTimeMs: 8000, endTimeMs: 12000, label: 'Verse', color: '#00ff00' },
+				{
+					id: 'b',
+					startTimeMs: 1000,
+					endTimeMs: 1000,
+					label: 'Hit',
+					color: '#0000ff',
+					isPoint: true
+				}
+			]
+		});
+
+		const [song] = parseVirtualDjDatabase(xml);
+		expect(song).toMatchObject({ filename: 'Song.mp3', bpm: 120, firstBeatMs: 350 });
+		expect(toBeatOffset(song.firstBeatMs!, song.bpm!)).toBe(-150);
+		expect(song.cues).toEqual([
+			{ name: 'Hit', startMs: 1000, color: '#0000ff' },
+			{ name: 'Verse', startMs: 8000, endMs: 12000, color: '#00ff00' }
+		]);
+	});
+
+	it('writes a beat grid anchor for each tempo section', () => {
+		const xml = formatVirtualDjDatabase({
+			filename: 'Live.mp3',
+			bpm: 120,
+			beatOffset: 0,
+			tempoMap: [{ startBeat: 4, bpm: 60 }],
+			annotations: []
+		});
+
+		expect(xml).toContain('<Poi Pos="0.000000" Type="beatgrid" Bpm="0.500000" />');
+		expect(xml).toContain('<Poi Pos="2.000000" Type="beatgrid" Bpm="1.000000" />');
+		expect(parseVirtualDjDatabase(xml)[0]).toMatchObject({ bpm: 120, firstBeatMs: 0 });
+	});
+});
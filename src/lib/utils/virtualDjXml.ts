@@ -0,0 +1,176 @@
+/**
+ * VirtualDJ database.xml import/export
+ * Each Song element holds Tags, a Scan result and Poi elements (cues, saved loops,
+ * remix points and the beat grid anchor). Positions and tempos are in seconds:
+ * Bpm attributes hold the length of one beat, not beats per minute.
+ */
+
+import type { Annotation, TempoSection, TrackMetadata } from '../types';
+import { baseFilename, firstBeatMs, type DjCue, type DjTrack } from './djTrack';
+import { beatsToSeconds, startGridAtBeat } from './tempoMap';
+import { formatAttributes, numberAttribute, parseXml, type XmlElement } from './xml';
+
+export const VIRTUALDJ_ROOT = 'VirtualDJ_Database';
+
+// Points that mark playback behaviour rather than positions in the music
+const IGNORED_POI_TYPES = new Set(['beatgrid', 'automix', 'load']);
+
+/**
+ * Beats per minute from a VirtualDJ beat length in seconds
+ */
+function toBpm(secondsPerBeat: number | undefined): number | undefined {
+	return secondsPerBeat !== undefined && secondsPerBeat > 0 ? 60 / secondsPerBeat : undefined;
+}
+
+/**
+ * VirtualDJ stores colours as #RRGGBB or as a decimal ARGB integer
+ */
+function toHexColor(value: string | undefined): string | undefined {
+	if (!value) return undefined;
+	if (/^#[0-9a-f]{6}$/i.test(value)) return value.toLowerCase();
+
+	const argb = numberAttribute(value);
+	if (argb === undefined || argb < 0) return undefined;
+	return `#${(argb & 0xffffff).toString(16).padStart(6, '0')}`;
+}
+
+function toVirtualDjCue(poi: XmlElement, index: number): DjCue | null {
+	const { attributes } = poi;
+	const type = attributes.Type?.toLowerCase() ?? 'cue';
+	const start = numberAttribute(attributes.Pos);
+	if (IGNORED_POI_TYPES.has(type) || start === undefined || start < 0) return null;
+
+	const size = numberAttribute(attributes.Size);
+	const num = numberAttribute(attributes.Num);
+	const fallbackName =
+		type === 'loop' ? 'Loop' : type === 'remix' ? 'Remix point' : `Cue ${num ?? index + 1}`;
+
+	return {
+		name: attributes.Name?.trim() || fallbackName,
+		startMs: Math.round(start * 1000),
+		...(type === 'loop' && size !== undefined && size > 0
+			? { endMs: Math.round((start + size) * 1000) }
+			: {}),
+		color: toHexColor(attributes.Color)
+	};
+}
+
+function toVirtualDjTrack(song: XmlElement): DjTrack {
+	const child = (name: string) => song.children.find((element) => element.name === name);
+	const pois = song.children.filter((element) => element.name === 'Poi');
+
+	const grid = pois
+		.filter((poi) => poi.attributes.Type?.toLowerCase() === 'beatgrid')
+		.map((poi) => ({
+			start: numberAttribute(poi.attributes.Pos),
+			bpm: toBpm(numberAttribute(poi.attributes.Bpm))
+		}))
+		.filter((anchor) => anchor.start !== undefined)
+		.sort((a, b) => a.start! - b.start!)[0];
+
+	const cues = pois
+		.map(toVirtualDjCue)
+		.filter((cue): cue is DjCue => cue !== null)
+		.sort((a, b) => a.startMs - b.startMs);
+
+	return {
+		title: child('Tags')?.attributes.Title ?? '',
+		artist: child('Tags')?.attributes.Author ?? '',
+		filename: baseFilename(song.attributes.FilePath),
+		bpm: grid?.bpm ?? toBpm(numberAttribute(child('Scan')?.attributes.Bpm)),
+		firstBeatMs: grid ? Math.round(grid.start! * 1000) : undefined,
+		cues
+	};
+}
+
+/**
+ * Songs of a VirtualDJ database.xml
+ * @throws Error if the file is not a VirtualDJ database
+ */
+export function parseVirtualDjDatabase(xml: string): DjTrack[] {
+	const root = parseXml(xml).find((element) => element.name === VIRTUALDJ_ROOT);
+	if (!root) {
+		throw new Error('File is not a VirtualDJ database.xml');
+	}
+
+	return root.children.filter((element) => element.name === 'Song').map(toVirtualDjTrack);
+}
+
+/**
+ * Serialize a session as a one-song VirtualDJ database: the beat grid anchor (one per
+ * tempo section, each with its own beat length, when the tempo changes), then annotations as POIs (ranges as saved loops, points as numbered cues).
+ * FilePath holds only the file name; the song has to be matched up in VirtualDJ.
+ */
+export function formatVirtualDjDatabase(session: {
+	filename: string;
+	sourceFilename?: string;
+	metadata?: TrackMetadata;
+	duration?: number;
+	bpm: number;
+	beatOffset: number;
+	tempoMap?: TempoSection[];
+	annotations: Annotation[];
+}): string {
+	const { bpm, metadata } = session;
+	const filePath = session.sourceFilename?.replace(/\.vdjstems$/i, '') ?? session.filename;
+	const secondsPerBeat = bpm > 0 ? (60 / bpm).toFixed(6) : undefined;
+	const seconds = (ms: number) => (ms / 1000).toFixed(6);
+
+	const lines = [
+		'<?xml version="1.0" encoding="UTF-8"?>',
+		`<${VIRTUALDJ_ROOT} Version="8.5">`,
+		` <Song${formatAttributes({ FilePath: filePath })}>`,
+		`  <Tags${formatAttributes({
+			Author: metadata?.artist,
+			Title: metadata?.title,
+			Genre: metadata?.genre,
+			Album: metadata?.album,
+			Bpm: secondsPerBeat
+		})} />`,
+		`  <Infos${formatAttributes({ SongLength: session.duration?.toFixed(6) })} />`,
+		`  <Scan${formatAttributes({ Bpm: secondsPerBeat })} />`
+	];
+
+	if (bpm > 0) {
+		const firstBeat = firstBeatMs(session.beatOffset, bpm);
+		const grid = startGridAtBeat(
+			{ bpm, tempoMap: session.tempoMap },
+			session.beatOffset < 0 ? 1 : 0
+		);
+		const changes = grid.tempoMap ?? [];
+		lines.push(
+			`  <Poi${formatAttributes({
+				Pos: seconds(firstBeat),
+				Type: 'beatgrid',
+				Bpm: changes.length > 0 ? (60 / grid.bpm).toFixed(6) : undefined
+			})} />`
+		);
+		for (const section of changes) {
+			lines.push(
+				`  <Poi${formatAttributes({
+					Pos: seconds(firstBeat + beatsToSeconds(section.startBeat, grid) * 1000),
+					Type: 'beatgrid',
+					Bpm: (60 / section.bpm).toFixed(6)
+				})} />`
+			);
+		}
+	}
+
+	let cueNumber = 0;
+	for (const annotation of [...session.annotations].sort((a, b) => a.startTimeMs - b.startTimeMs)) {
+		const isLoop = !annotation.isPoint && annotation.endTimeMs > annotation.startTimeMs;
+		lines.push(
+			`  <Poi${formatAttributes({
+				Name: annotation.label,
+				Pos: seconds(annotation.startTimeMs),
+				Size: isLoop ? seconds(annotation.endTimeMs - annotation.startTimeMs) : undefined,
+				Type: isLoop ? 'loop' : 'cue',
+				Num: isLoop ? undefined : ++cueNumber,
+				Color: /^#[0-9a-f]{6}$/i.test(annotation.color) ? annotation.color : undefined
+			})} />`
+		);
+	}
+
+	lines.push(' </Song>', `</${VIRTUALDJ_ROOT}>`);
+	return lines.map((line) => `${line}\r\n`).join('');
+}
@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { formatAttributes, parseXml } from './xml';
+
+describe('parseXml', () => {
+	it('reads nested elements and decodes attribute entities', () => {
+		const [root] = parseXml(
+			'<?xml version="1.0"?><!-- note --><A x="1 &amp; 2"><B y=\'&#65;\'/><C></C></A>'
+		);
+
+		expect(root.attributes.x).toBe('1 & 2');
+		expect(root.children.map((child) => [child.name, child.attributes])).toEqual([
+			['B', { y: 'A' }],
+			['C', {}]
+		]);
+	});
+
+	it('rejects badly nested tags', () => {
+		expect(() => parseXml('<A><B></A></B>')).toThrow('Unexpected closing tag');
+		expect(() => parseXml('<A>')).toThrow('Unclosed tag');
+	});
+});
+
+describe('formatAttributes', () => {
+	it('escapes values and skips empty ones', () => {
+		expect(formatAttributes({ Name: 'A "<b>"', Empty: '', Missing: undefined, Num: 0 })).toBe(
+			' Name="A &quot;&lt;b&gt;&quot;" Num="0"'
+		);
+	});
+});
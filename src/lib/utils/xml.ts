@@ -0,0 +1,98 @@
+/**
+ * Minimal XML reading and writing for attribute-based interchange formats (DJ software collections)
+ */
+
+export interface XmlElement {
+	name: string;
+	attributes: Record<string, string>;
+	children: XmlElement[];
+}
+
+const XML_ENTITIES: Record<string, string> = {
+	amp: '&',
+	lt: '<',
+	gt: '>',
+	quot: '"',
+	apos: "'"
+};
+
+function decodeXmlEntities(text: string): string {
+	return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+		if (entity[0] === '#') {
+			const code =
+				entity[1].toLowerCase() === 'x'
+					? parseInt(entity.slice(2), 16)
+					: parseInt(entity.slice(1), 10);
+			return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+		}
+		return XML_ENTITIES[entity] ?? match;
+	});
+}
+
+export function escapeXml(text: string): string {
+	return text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&apos;');
+}
+
+/**
+ * Parse the element structure of an XML document, ignoring text content, comments,
+ * processing instructions and doctypes
+ * @throws Error if tags are not properly nested
+ */
+export function parseXml(xml: string): XmlElement[] {
+	const root: XmlElement = { name: '', attributes: {}, children: [] };
+	const stack: XmlElement[] = [root];
+	const tagPattern =
+		/<!--[\s\S]*?-->|<[?!][^>]*>|<(\/?)([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g;
+	const attributePattern = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+	for (const match of xml.matchAll(tagPattern)) {
+		const [, closing, name, attributeText, selfClosing] = match;
+		if (!name) continue;
+
+		if (closing) {
+			const open = stack.pop();
+			if (!open || open.name !== name || stack.length === 0) {
+				throw new Error(`Unexpected closing tag </${name}>`);
+			}
+			continue;
+		}
+
+		const attributes: Record<string, string> = {};
+		for (const [, key, doubleQuoted, singleQuoted] of attributeText.matchAll(attributePattern)) {
+			attributes[key] = decodeXmlEntities(doubleQuoted ?? singleQuoted);
+		}
+
+		const element: XmlElement = { name, attributes, children: [] };
+		stack[stack.length - 1].children.push(element);
+		if (!selfClosing) stack.push(element);
+	}
+
+	if (stack.length !== 1) {
+		throw new Error(`Unclosed tag <${stack[stack.length - 1].name}>`);
+	}
+	return root.children;
+}
+
+/**
+ * Read a numeric attribute, treating missing, empty and non-numeric values as absent
+ */
+export function numberAttribute(value: string | undefined): number | undefined {
+	if (value === undefined || value.trim() === '') return undefined;
+	const number = Number(value);
+	return Number.isFinite(number) ? number : undefined;
+}
+
+/**
+ * Serialize attributes as ` key="value"` pairs, skipping undefined and empty values
+ */
+export function formatAttributes(attributes: Record<string, string | number | undefined>): string {
+	return Object.entries(attributes)
+		.filter(([, value]) => value !== undefined && value !== '')
+		.map(([key, value]) => ` ${key}="${escapeXml(String(value))}"`)
+		.join('');
+}
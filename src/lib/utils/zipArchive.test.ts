@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { createZip, readZip, crc32 } from './zipArchive';
+
+describe('crc32', () => {
+	it('matches the reference checksum', () => {
+		expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+	});
+
+	it('returns 0 for empty input', () => {
+		expect(crc32(new Uint8Array())).toBe(0);
+	});
+});
+
+describe('createZip / readZip', () => {
+	it('round-trips entries with their names and contents', () => {
+		const entries = [
+			{ name: 'manifest.json', data: new TextEncoder().encode('{"a":1}') },
+			{ name: 'stems/0-Drums.mp3', data: new Uint8Array([1, 2, 3, 4, 5]) },
+			{ name: 'empty.bin', data: new Uint8Array() }
+		];
+		const result = readZip(createZip(entries));
+		expect(result.map((e) => e.name)).toEqual(entries.map((e) => e.name));
+		result.forEach((entry, i) => {
+			expect(Array.from(entry.data)).toEqual(Array.from(entries[i].data));
+		});
+	});
+
+	it('preserves non-ASCII filenames', () => {
+		const result = readZip(createZip([{ name: 'audio/Café tú.mp3', data: new Uint8Array([9]) }]));
+		expect(result[0].name).toBe('audio/Café tú.mp3');
+	});
+
+	it('rejects data that is not a ZIP archive', () => {
+		expect(() => readZip(new Uint8Array(64))).toThrow('Not a valid ZIP archive');
+	});
+
+	it('rejects entries whose contents do not match their checksum', () => {
+		const zip = createZip([{ name: 'audio/song.mp3', data: new Uint8Array([1, 2, 3, 4]) }]);
+		zip[30 + 'audio/song.mp3'.length + 1] ^= 0xff;
+		expect(() => readZip(zip)).toThrow('ZIP entry "audio/song.mp3" is corrupted');
+	});
+
+	it('rejects entries that run past the end of the archive', () => {
+		const zip = createZip([{ name: 'audio/song.mp3', data: new Uint8Array(16) }]);
+		const view = new DataView(zip.buffer);
+		const centralStart = 30 + 'audio/song.mp3'.length + 16;
+		view.setUint32(centralStart + 20, 1000, true);
+		expect(() => readZip(zip)).toThrow('ZIP entry "audio/song.mp3" is truncated');
+	});
+});
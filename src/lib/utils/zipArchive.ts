@@ -0,0 +1,186 @@
+/**
+ * Minimal ZIP archive reader/writer
+ * Only the "stored" (uncompressed) method is supported - audio payloads are already
+ * compressed, so deflating them would cost time without saving meaningful space.
+ */
+
+export interface ZipEntry {
+	name: string;
+	data: Uint8Array;
+}
+
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const UTF8_FILENAME_FLAG = 0x0800;
+const ZIP_VERSION = 20;
+
+let crcTable: Uint32Array | null = null;
+
+function getCrcTable(): Uint32Array {
+	if (crcTable) return crcTable;
+	crcTable = new Uint32Array(256);
+	for (let n = 0; n < 256; n++) {
+		let c = n;
+		for (let k = 0; k < 8; k++) {
+			c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+		}
+		crcTable[n] = c >>> 0;
+	}
+	return crcTable;
+}
+
+/**
+ * Compute the CRC-32 checksum used by the ZIP format
+ */
+export function crc32(data: Uint8Array): number {
+	const table = getCrcTable();
+	let crc = 0xffffffff;
+	for (let i = 0; i < data.length; i++) {
+		crc = table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+	}
+	return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Build a ZIP archive from a list of entries
+ */
+export function createZip(entries: ZipEntry[]): Uint8Array {
+	const encoder = new TextEncoder();
+	const prepared = entries.map((entry) => ({
+		nameBytes: encoder.encode(entry.name),
+		data: entry.data,
+		crc: crc32(entry.data)
+	}));
+
+	const localSize = prepared.reduce((sum, e) => sum + 30 + e.nameBytes.length + e.data.length, 0);
+	const centralSize = prepared.reduce((sum, e) => sum + 46 + e.nameBytes.length, 0);
+	const output = new Uint8Array(localSize + centralSize + 22);
+	const view = new DataView(output.buffer);
+
+	let offset = 0;
+	const localOffsets: number[] = [];
+
+	// Local file headers followed by file data
+	for (const entry of prepared) {
+		localOffsets.push(offset);
+		view.setUint32(offset, LOCAL_FILE_HEADER_SIGNATURE, true);
+		view.setUint16(offset + 4, ZIP_VERSION, true);
+		view.setUint16(offset + 6, UTF8_FILENAME_FLAG, true);
+		view.setUint16(offset + 8, 0, true); // Stored
+		view.setUint16(offset + 10, 0, true); // Mod time
+		view.setUint16(offset + 12, 0x21, true); // Mod date (1980-01-01)
+		view.setUint32(offset + 14, entry.crc, true);
+		view.setUint32(offset + 18, entry.data.length, true);
+		view.setUint32(offset + 22, entry.data.length, true);
+		view.setUint16(offset + 26, entry.nameBytes.length, true);
+		view.setUint16(offset + 28, 0, true);
+		offset += 30;
+		output.set(entry.nameBytes, offset);
+		offset += entry.nameBytes.length;
+		output.set(entry.data, offset);
+		offset += entry.data.length;
+	}
+
+	// Central directory
+	const centralStart = offset;
+	prepared.forEach((entry, index) => {
+		view.setUint32(offset, CENTRAL_DIRECTORY_SIGNATURE, true);
+		view.setUint16(offset + 4, ZIP_VERSION, true);
+		view.setUint16(offset + 6, ZIP_VERSION, true);
+		view.setUint16(offset + 8, UTF8_FILENAME_FLAG, true);
+		view.setUint16(offset + 10, 0, true);
+		view.setUint16(offset + 12, 0, true);
+		view.setUint16(offset + 14, 0x21, true);
+		view.setUint32(offset + 16, entry.crc, true);
+		view.setUint32(offset + 20, entry.data.length, true);
+		view.setUint32(offset + 24, entry.data.length, true);
+		view.setUint16(offset + 28, entry.nameBytes.length, true);
+		view.setUint16(offset + 30, 0, true); // Extra field length
+		view.setUint16(offset + 32, 0, true); // Comment length
+		view.setUint16(offset + 34, 0, true); // Disk number
+		view.setUint16(offset + 36, 0, true); // Internal attributes
+		view.setUint32(offset + 38, 0, true); // External attributes
+		view.setUint32(offset + 42, localOffsets[index], true);
+		offset += 46;
+		output.set(entry.nameBytes, offset);
+		offset += entry.nameBytes.length;
+	});
+
+	// End of central directory record
+	view.setUint32(offset, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+	view.setUint16(offset + 4, 0, true);
+	view.setUint16(offset + 6, 0, true);
+	view.setUint16(offset + 8, prepared.length, true);
+	view.setUint16(offset + 10, prepared.length, true);
+	view.setUint32(offset + 12, offset - centralStart, true);
+	view.setUint32(offset + 16, centralStart, true);
+	view.setUint16(offset + 20, 0, true);
+
+	return output;
+}
+
+/**
+ * Read all entries from a ZIP archive created with the stored method.
+ * Each entry is checked against its stored CRC-32, so damaged archives fail to read.
+ */
+export function readZip(buffer: ArrayBuffer | Uint8Array): ZipEntry[] {
+	const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+	const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+	const decoder = new TextDecoder();
+
+	// Scan backwards for the end of central directory record (comment may follow it)
+	let eocdOffset = -1;
+	for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+		if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+			eocdOffset = i;
+			break;
+		}
+	}
+	if (eocdOffset < 0) {
+		throw new Error('Not a valid ZIP archive');
+	}
+
+	const entryCount = view.getUint16(eocdOffset + 10, true);
+	let offset = view.getUint32(eocdOffset + 16, true);
+	const entries: ZipEntry[] = [];
+
+	for (let i = 0; i < entryCount; i++) {
+		if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_SIGNATURE) {
+			throw new Error('Corrupt ZIP central directory');
+		}
+		const method = view.getUint16(offset + 10, true);
+		const expectedCrc = view.getUint32(offset + 16, true);
+		const compressedSize = view.getUint32(offset + 20, true);
+		const nameLength = view.getUint16(offset + 28, true);
+		const extraLength = view.getUint16(offset + 30, true);
+		const commentLength = view.getUint16(offset + 32, true);
+		const localOffset = view.getUint32(offset + 42, true);
+		const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+		if (method !== 0) {
+			throw new Error(`Unsupported compression for "${name}" (only stored entries are supported)`);
+		}
+
+		if (view.getUint32(localOffset, true) !== LOCAL_FILE_HEADER_SIGNATURE) {
+			throw new Error(`Corrupt ZIP entry "${name}"`);
+		}
+		const localNameLength = view.getUint16(localOffset + 26, true);
+		const localExtraLength = view.getUint16(localOffset + 28, true);
+		const dataStart = localOffset + 30 + localNameLength + localExtraLength;
+		if (dataStart + compressedSize > bytes.length) {
+			throw new Error(`ZIP entry "${name}" is truncated`);
+		}
+
+		const data = bytes.slice(dataStart, dataStart + compressedSize);
+		if (crc32(data) !== expectedCrc) {
+			throw new Error(`ZIP entry "${name}" is corrupted (checksum mismatch)`);
+		}
+
+		entries.push({ name, data });
+
+		offset += 46 + nameLength + extraLength + commentLength;
+	}
+
+	return entries;
+}